@@ -0,0 +1,139 @@
+/**
+ * Audit log for OITVOIP MCP Server
+ * Append-only JSONL record of every call to a tool that changes NetSapiens state
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+/** Who made the call */
+export interface AuditActor {
+  /** MCP client name/version from the initialize handshake */
+  client?: string;
+  /** Fingerprint of the API key used on the HTTP transport */
+  apiKey?: string;
+}
+
+/** One NetSapiens request made while the tool ran */
+export interface UpstreamCall {
+  method: string;
+  endpoint: string;
+  status?: number;
+}
+
+export interface AuditEntry {
+  time: string;
+  correlationId?: string;
+  tool: string;
+  profile?: string;
+  domain?: string;
+  /** The object the call acted on, e.g. "callqueue 8001 agent 100" */
+  target?: string;
+  /** Call arguments, redacted */
+  arguments: unknown;
+  actor: AuditActor;
+  outcome: AuditOutcome;
+  upstream: UpstreamCall[];
+  error?: { type: string; message: string };
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  /** ISO timestamp; entries at or after it */
+  since?: string;
+  /** ISO timestamp; entries at or before it */
+  until?: string;
+  domain?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  /** Newest entries first, at most this many */
+  limit?: number;
+}
+
+const upstreamStorage = new AsyncLocalStorage<UpstreamCall[]>();
+
+/**
+ * Run fn and collect every NetSapiens request it makes
+ */
+export async function trackUpstreamCalls<T>(fn: () => Promise<T>, calls: UpstreamCall[] = []): Promise<T> {
+  return upstreamStorage.run(calls, fn);
+}
+
+/**
+ * Called by NetSapiensClient for each completed request; a no-op outside trackUpstreamCalls
+ */
+export function recordUpstreamCall(call: UpstreamCall): void {
+  upstreamStorage.getStore()?.push(call);
+}
+
+export class AuditLog {
+  // Appends are chained so entries land in the order they were recorded
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    // A failed append is reported to its caller but must not block later ones
+    this.pending = this.pending.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    });
+    return this.pending;
+  }
+
+  /**
+   * Read entries matching the query, newest first
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.pending.catch(() => undefined);
+
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const entries: AuditEntry[] = [];
+
+    for (const line of contents.split('\n')) {
+      const entry = parseLine(line);
+      if (!entry) {
+        continue;
+      }
+      const time = Date.parse(entry.time);
+      if (
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until) &&
+        (!query.domain || entry.domain?.toLowerCase() === query.domain.toLowerCase()) &&
+        (!query.tool || entry.tool === query.tool) &&
+        (!query.outcome || entry.outcome === query.outcome)
+      ) {
+        entries.push(entry);
+      }
+    }
+
+    entries.reverse();
+    return query.limit === undefined ? entries : entries.slice(0, query.limit);
+  }
+}
+
+// Skip blank lines and anything a crashed writer may have left half-written
+function parseLine(line: string): AuditEntry | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
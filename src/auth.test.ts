@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { OAuth2AuthProvider, StaticTokenAuthProvider } from './auth.js';
+import { NetSapiensAuthError, NetSapiensUnauthorizedError } from './errors.js';
+import { logger } from './logger.js';
+import { NetSapiensClient } from './netsapiens-client.js';
+import { ACME } from './testing/fixtures.js';
+import { MockNetSapiensServer } from './testing/mock-netsapiens-server.js';
+
+const OAUTH = { clientId: 'client', clientSecret: 'secret', username: 'admin@acme.example', password: 'hunter2' };
+
+// Stand in for the token endpoint: respond gets the form fields and the 1-based call number
+const mockTokenEndpoint = (respond: (params: URLSearchParams, call: number) => object) => {
+  let calls = 0;
+  return mock.method(axios, 'post', async (_url: string, body: string) => {
+    calls += 1;
+    return { data: respond(new URLSearchParams(body), calls) };
+  });
+};
+
+logger.configure({ level: 'error' });
+
+describe('auth providers', () => {
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  test('a static token is sent as is and never refreshed', async () => {
+    const provider = new StaticTokenAuthProvider('abc');
+
+    assert.equal(await provider.getAuthorizationHeader(), 'Bearer abc');
+    assert.equal(await provider.invalidate(), false);
+  });
+
+  test('OAuth2 reuses its token until shortly before it expires', async () => {
+    mock.timers.enable({ apis: ['Date'] });
+    const post = mockTokenEndpoint((_params, call) => ({ access_token: `access-${call}`, expires_in: 600, refresh_token: `refresh-${call}` }));
+    const provider = new OAuth2AuthProvider('https://api.example', { ...OAUTH, refreshSkewMs: 60000 });
+
+    assert.equal(await provider.getAuthorizationHeader(), 'Bearer access-1');
+    mock.timers.tick(539_000);
+    assert.equal(await provider.getAuthorizationHeader(), 'Bearer access-1');
+    mock.timers.tick(1000);
+    assert.equal(await provider.getAuthorizationHeader(), 'Bearer access-2');
+
+    assert.equal(post.mock.callCount(), 2);
+    assert.equal(post.mock.calls[0].arguments[0], 'https://api.example/ns-api/oauth2/token/');
+    const [first, second] = post.mock.calls.map((call) => new URLSearchParams(call.arguments[1] as string));
+    assert.equal(first.get('grant_type'), 'password');
+    assert.equal(first.get('client_secret'), 'secret');
+    assert.equal(second.get('grant_type'), 'refresh_token');
+    assert.equal(second.get('refresh_token'), 'refresh-1');
+  });
+
+  test('concurrent 401s share one token refresh', async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const post = mock.method(axios, 'post', async () => {
+      await released;
+      return { data: { access_token: 'fresh' } };
+    });
+    const provider = new OAuth2AuthProvider('https://api.example', OAUTH);
+
+    const refreshes = [provider.invalidate(), provider.invalidate(), provider.getAuthorizationHeader()];
+    release();
+
+    assert.deepEqual(await Promise.all(refreshes), [true, true, 'Bearer fresh']);
+    assert.equal(post.mock.callCount(), 1);
+  });
+
+  test('an expired refresh token falls back to the password grant', async () => {
+    const post = mockTokenEndpoint((params) => {
+      if (params.get('grant_type') === 'refresh_token') {
+        throw new Error('Request failed with status code 400');
+      }
+      return { access_token: 'from-password' };
+    });
+    const provider = new OAuth2AuthProvider('https://api.example', { ...OAUTH, refreshToken: 'stale' });
+
+    assert.equal(await provider.getAuthorizationHeader(), 'Bearer from-password');
+    assert.equal(post.mock.callCount(), 2);
+  });
+
+  test('a failed refresh after a 401 reports that the request cannot be retried', async () => {
+    mockTokenEndpoint(() => ({ token_type: 'Bearer' }));
+    const provider = new OAuth2AuthProvider('https://api.example', { clientId: 'client', clientSecret: 'secret', refreshToken: 'r' });
+
+    assert.equal(await provider.invalidate(), false);
+    await assert.rejects(provider.getAuthorizationHeader(), /did not include an access_token/);
+  });
+});
+
+describe('NetSapiensClient with OAuth2', () => {
+  let server: MockNetSapiensServer;
+  let client: NetSapiensClient;
+
+  beforeEach(async () => {
+    server = new MockNetSapiensServer();
+    const apiUrl = await server.start();
+    client = new NetSapiensClient({ apiUrl, oauth2: { ...OAUTH, clientId: `client-${apiUrl}` }, retry: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1 } });
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await server.stop();
+  });
+
+  test('refreshes the token on a 401 and replays the request once', async () => {
+    const post = mock.method(axios, 'post');
+    server.failNext('GET', `/domains/${ACME}`, { status: 401, body: { message: 'Token expired' } });
+
+    const result = await client.getDomain(ACME);
+
+    assert.equal(result.data?.domain, ACME);
+    assert.equal(post.mock.callCount(), 2);
+    assert.equal(server.requests.filter((request) => request.path === `/domains/${ACME}`).length, 2);
+  });
+
+  test('gives up when the replayed request is rejected too', async () => {
+    const post = mock.method(axios, 'post');
+    server.failNext('GET', `/domains/${ACME}`, { status: 401, body: { message: 'Token expired' } }, 2);
+
+    await assert.rejects(client.getDomain(ACME), NetSapiensUnauthorizedError);
+    assert.equal(post.mock.callCount(), 2);
+    assert.equal(server.requests.filter((request) => request.path === `/domains/${ACME}`).length, 2);
+  });
+
+  test('a failed token request is reported as an auth error and never replayed as an API call', async () => {
+    const post = mock.method(axios, 'post', async (url: string) => {
+      const config = { url, method: 'post', headers: new AxiosHeaders() };
+      throw new AxiosError('Request failed with status code 401', AxiosError.ERR_BAD_REQUEST, config, null, {
+        status: 401,
+        statusText: 'Unauthorized',
+        data: { message: 'Invalid client' },
+        headers: {},
+        config
+      });
+    });
+
+    await assert.rejects(client.getDomain(ACME), (error: unknown) => {
+      assert.ok(error instanceof NetSapiensAuthError);
+      assert.equal(error.status, 401);
+      assert.match(error.message, /OAuth2 token request failed with status 401: Invalid client/);
+      return true;
+    });
+    assert.equal(post.mock.callCount(), 1);
+    assert.equal(server.requests.length, 0);
+  });
+});
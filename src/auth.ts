@@ -0,0 +1,180 @@
+/**
+ * Authentication providers for OITVOIP MCP Server
+ * Supplies the Authorization header for NetSapiens API requests
+ */
+
+import axios from 'axios';
+import { NetSapiensConfig, NetSapiensOAuth2Config } from './types/config.js';
+import { logger } from './logger.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set once a request has been replayed after a 401 */
+    authRetried?: boolean;
+  }
+}
+
+export interface AuthProvider {
+  /** Stable identifier for the credential, used to share rate limit budgets */
+  readonly key: string;
+  /** Get the Authorization header value, obtaining or refreshing a token if needed */
+  getAuthorizationHeader(): Promise<string>;
+  /**
+   * Discard the current credential after a 401.
+   * Resolves true when a fresh credential was obtained and the request may be retried.
+   */
+  invalidate(): Promise<boolean>;
+}
+
+/**
+ * Static API token, sent as a bearer token
+ */
+export class StaticTokenAuthProvider implements AuthProvider {
+  readonly key: string;
+
+  constructor(private readonly apiToken: string) {
+    this.key = apiToken;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Bearer ${this.apiToken}`;
+  }
+
+  async invalidate(): Promise<boolean> {
+    // Nothing to refresh, a rejected static token stays rejected
+    return false;
+  }
+}
+
+interface OAuth2TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+/**
+ * NetSapiens OAuth2 using the password or refresh token grant
+ */
+export class OAuth2AuthProvider implements AuthProvider {
+  readonly key: string;
+  private readonly tokenUrl: string;
+  private readonly refreshSkewMs: number;
+  private accessToken: string | null = null;
+  private refreshToken: string | null;
+  private expiresAt = 0;
+  private pending: Promise<string> | null = null;
+
+  constructor(apiUrl: string, private readonly oauth: NetSapiensOAuth2Config, private readonly timeout?: number) {
+    if (!oauth.refreshToken && !(oauth.username && oauth.password)) {
+      throw new Error('OAuth2 requires either a refresh token or a username and password');
+    }
+
+    this.key = `oauth2:${oauth.clientId}:${oauth.username || 'refresh-token'}`;
+    this.tokenUrl = oauth.tokenUrl || `${apiUrl}/ns-api/oauth2/token/`;
+    this.refreshSkewMs = oauth.refreshSkewMs ?? 60000;
+    this.refreshToken = oauth.refreshToken || null;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    if (!this.accessToken || Date.now() >= this.expiresAt - this.refreshSkewMs) {
+      await this.obtainToken();
+    }
+    return `Bearer ${this.accessToken}`;
+  }
+
+  async invalidate(): Promise<boolean> {
+    this.accessToken = null;
+    try {
+      await this.obtainToken();
+      return true;
+    } catch (error: any) {
+      logger.warn('NetSapiens OAuth2 token refresh failed', { tokenUrl: this.tokenUrl, error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Fetch a new access token, sharing one in-flight request between callers
+   */
+  private obtainToken(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async requestToken(): Promise<string> {
+    let token: OAuth2TokenResponse;
+
+    if (this.refreshToken) {
+      try {
+        token = await this.postTokenRequest({
+          grant_type: 'refresh_token',
+          refresh_token: this.refreshToken
+        });
+      } catch (error) {
+        // Refresh tokens expire too; fall back to the password grant when we can
+        if (!(this.oauth.username && this.oauth.password)) {
+          throw error;
+        }
+        token = await this.passwordGrant();
+      }
+    } else {
+      token = await this.passwordGrant();
+    }
+
+    this.accessToken = token.access_token;
+    this.expiresAt = Date.now() + (token.expires_in ?? 3600) * 1000;
+    if (token.refresh_token) {
+      this.refreshToken = token.refresh_token;
+    }
+    return token.access_token;
+  }
+
+  private passwordGrant(): Promise<OAuth2TokenResponse> {
+    return this.postTokenRequest({
+      grant_type: 'password',
+      username: this.oauth.username!,
+      password: this.oauth.password!
+    });
+  }
+
+  private async postTokenRequest(params: Record<string, string>): Promise<OAuth2TokenResponse> {
+    const response = await axios.post(
+      this.tokenUrl,
+      new URLSearchParams({
+        ...params,
+        client_id: this.oauth.clientId,
+        client_secret: this.oauth.clientSecret
+      }).toString(),
+      {
+        timeout: this.timeout || 30000,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        }
+      }
+    );
+
+    if (!response.data?.access_token) {
+      throw new Error('OAuth2 token response did not include an access_token');
+    }
+    return response.data;
+  }
+}
+
+/**
+ * Create the auth provider described by a NetSapiens configuration
+ */
+export function createAuthProvider(config: NetSapiensConfig): AuthProvider {
+  if (config.oauth2) {
+    return new OAuth2AuthProvider(config.apiUrl, config.oauth2, config.timeout);
+  }
+  if (config.apiToken) {
+    return new StaticTokenAuthProvider(config.apiToken);
+  }
+  throw new Error('NetSapiens configuration requires either apiToken or oauth2 credentials');
+}
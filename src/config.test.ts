@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { ConfigError, loadConfig } from './config.js';
+
+const TOKEN_ENV = { NETSAPIENS_API_TOKEN: 'test-token' };
+
+// Expect loadConfig to fail with a ConfigError listing one issue for the given key
+const assertConfigIssue = (run: () => unknown, key: string, message: RegExp) =>
+  assert.throws(run, (error: unknown) => {
+    assert.ok(error instanceof ConfigError, `expected ConfigError, got ${error}`);
+    const issue = error.issues.find((issue) => issue.startsWith(`${key}: `));
+    assert.ok(issue, `no issue for ${key} in ${JSON.stringify(error.issues)}`);
+    assert.match(issue, message);
+    assert.match(error.message, new RegExp(`- ${key.replace(/\./g, '\\.')}: `));
+    return true;
+  });
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oitvoip-config-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (name: string, contents: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  test('builds the default profile from environment variables', () => {
+    const config = loadConfig([], { ...TOKEN_ENV, NETSAPIENS_TIMEOUT: '5000', MCP_DENY_TOOLS: 'delete_user, delete_device' });
+
+    assert.equal(config.defaultProfile, 'default');
+    assert.equal(config.netsapiens?.apiToken, 'test-token');
+    assert.equal(config.netsapiens?.timeout, 5000);
+    assert.deepEqual(config.netsapiens?.retry, { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000 });
+    assert.deepEqual(config.policy?.tools?.deny, ['delete_user', 'delete_device']);
+    assert.equal(config.transport?.type, 'stdio');
+    assert.equal(config.logging?.level, 'info');
+  });
+
+  test('names the environment setting that has a bad value', () => {
+    assertConfigIssue(() => loadConfig([], { ...TOKEN_ENV, NETSAPIENS_TIMEOUT: '-5' }), 'netsapiens.timeout', /greater than 0/);
+    assertConfigIssue(() => loadConfig([], { ...TOKEN_ENV, MCP_HTTP_PORT: '70000' }), 'transport.port', /less than or equal to 65535/);
+    assertConfigIssue(() => loadConfig([], { ...TOKEN_ENV, LOG_LEVEL: 'verbose' }), 'logging.level', /Invalid enum value/);
+    assertConfigIssue(() => loadConfig([], { ...TOKEN_ENV, MCP_TRANSPORT: 'sse' }), 'transport.apiKeys', /requires at least one API key/);
+    assertConfigIssue(() => loadConfig([], { NETSAPIENS_API_URL: 'https://api.example' }), 'netsapiens', /at least one NetSapiens profile is required/);
+  });
+
+  test('names the config file key that is unknown or invalid', () => {
+    const path = writeConfig('bad.json', JSON.stringify({
+      profiles: {
+        lab: { apiTokn: 'lab-token' },
+        'bad name': { apiToken: 'x' }
+      },
+      policy: { categories: { deny: ['delete'] } }
+    }));
+
+    assert.throws(() => loadConfig(['--config', path], {}), (error: unknown) => {
+      assert.ok(error instanceof ConfigError);
+      assert.ok(error.message.startsWith(`Invalid configuration (${path}):`));
+      return true;
+    });
+    assertConfigIssue(() => loadConfig(['--config', path], {}), 'profiles.lab', /Unrecognized key\(s\) in object: 'apiTokn'/);
+    assertConfigIssue(() => loadConfig(['--config', path], {}), 'profiles.bad name', /profile names may only contain/);
+    assertConfigIssue(() => loadConfig(['--config', path], {}), 'policy.categories.deny.0', /Invalid enum value/);
+  });
+
+  test('rejects a default profile that is not configured', () => {
+    const path = writeConfig('profiles.yaml', 'profiles:\n  lab:\n    apiToken: lab-token\n');
+
+    assert.equal(loadConfig([`--config=${path}`], {}).defaultProfile, 'lab');
+    assertConfigIssue(
+      () => loadConfig([`--config=${path}`], { NETSAPIENS_DEFAULT_PROFILE: 'production' }),
+      'defaultProfile',
+      /unknown profile "production" \(available: lab\)/
+    );
+  });
+
+  test('reports config files that cannot be read or parsed', () => {
+    const broken = writeConfig('broken.json', '{ "netsapiens": ');
+
+    assert.throws(() => loadConfig(['--config'], {}), /--config requires a file path/);
+    assert.throws(() => loadConfig([], { OITVOIP_CONFIG: join(dir, 'missing.json') }), /Unable to read config file .*missing\.json/);
+    assert.throws(() => loadConfig(['--config', broken], {}), /Unable to parse config file .*broken\.json/);
+    assert.throws(() => loadConfig(['--config', writeConfig('list.json', '[]')], {}), /must contain an object/);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Configuration loading for OITVOIP MCP Server
+ * Merges an optional JSON/YAML config file with environment variables and validates the result
+ */
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DEFAULT_CACHE_TTLS } from './response-cache.js';
+import { MCPServerConfig } from './types/config.js';
+
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_AUDIT_LOG_PATH = join(homedir(), '.oitvoip-mcp', 'audit.jsonl');
+
+export class ConfigError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+const oauth2Schema = z
+  .object({
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1),
+    username: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
+    refreshToken: z.string().min(1).optional(),
+    tokenUrl: z.string().url().optional(),
+    refreshSkewMs: z.number().int().nonnegative().optional()
+  })
+  .strict()
+  .refine((oauth) => oauth.refreshToken || (oauth.username && oauth.password), {
+    message: 'requires either refreshToken or username and password'
+  });
+
+const netsapiensSchema = z
+  .object({
+    apiUrl: z.string().url().default('https://api.ucaasnetwork.com'),
+    apiToken: z.string().min(1).optional(),
+    oauth2: oauth2Schema.optional(),
+    timeout: z.number().int().positive().default(30000),
+    rateLimit: z
+      .object({
+        requests: z.number().int().positive(),
+        perMilliseconds: z.number().int().positive()
+      })
+      .strict()
+      .default({ requests: 100, perMilliseconds: 60000 }), // 100 requests per minute
+    retry: z
+      .object({
+        maxRetries: z.number().int().nonnegative(),
+        baseDelayMs: z.number().int().nonnegative(),
+        maxDelayMs: z.number().int().nonnegative()
+      })
+      .strict()
+      .default({ maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000 }),
+    cache: z
+      .object({
+        enabled: z.boolean().default(true),
+        maxEntries: z.number().int().positive().default(500),
+        ttlMs: z
+          .object({
+            domains: z.number().int().nonnegative().default(DEFAULT_CACHE_TTLS.domains),
+            domain: z.number().int().nonnegative().default(DEFAULT_CACHE_TTLS.domain),
+            callQueues: z.number().int().nonnegative().default(DEFAULT_CACHE_TTLS.callQueues),
+            musicOnHold: z.number().int().nonnegative().default(DEFAULT_CACHE_TTLS.musicOnHold)
+          })
+          .strict()
+          .default({})
+      })
+      .strict()
+      .default({})
+  })
+  .strict()
+  .refine((profile) => profile.apiToken || profile.oauth2, {
+    message: 'requires either apiToken or oauth2 credentials'
+  });
+
+const transportSchema = z
+  .object({
+    type: z.enum(['stdio', 'sse']).default('stdio'),
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(0).max(65535).default(3000),
+    apiKeys: z.array(z.string().min(16, 'API keys must be at least 16 characters')).default([])
+  })
+  .strict()
+  .refine((transport) => transport.type !== 'sse' || transport.apiKeys.length > 0, {
+    message: 'the sse transport requires at least one API key (set MCP_API_KEYS)',
+    path: ['apiKeys']
+  });
+
+const loggingSchema = z
+  .object({
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    redact: z
+      .object({
+        fields: z.array(z.string().min(1)).default([]),
+        phoneNumbers: z.boolean().default(true)
+      })
+      .strict()
+      .default({})
+  })
+  .strict();
+
+const auditSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    path: z.string().min(1).default(DEFAULT_AUDIT_LOG_PATH)
+  })
+  .strict();
+
+const allowDenySchema = z
+  .object({
+    allow: z.array(z.string().min(1)).optional(),
+    deny: z.array(z.string().min(1)).optional()
+  })
+  .strict();
+
+const policySchema = z
+  .object({
+    readOnly: z.boolean().default(false),
+    tools: allowDenySchema.optional(),
+    categories: z
+      .object({
+        allow: z.array(z.enum(['read', 'write'])).optional(),
+        deny: z.array(z.enum(['read', 'write'])).optional()
+      })
+      .strict()
+      .optional(),
+    domains: allowDenySchema.optional(),
+    revealSipCredentials: z.boolean().default(false)
+  })
+  .strict();
+
+export const mcpServerConfigSchema: z.ZodType<MCPServerConfig, z.ZodTypeDef, unknown> = z
+  .object({
+    name: z.string().min(1).default('oitvoip-mcp-server'),
+    version: z.string().min(1).default('1.0.0'),
+    netsapiens: netsapiensSchema.optional(),
+    profiles: z.record(z.string().regex(/^[A-Za-z0-9_-]+$/, 'profile names may only contain letters, digits, "_" and "-"'), netsapiensSchema).default({}),
+    defaultProfile: z.string().min(1).optional(),
+    debug: z.boolean().default(false),
+    transport: transportSchema.default({}),
+    logging: loggingSchema.default({}),
+    policy: policySchema.default({}),
+    audit: auditSchema.default({})
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const names = Object.keys(config.profiles);
+    if (!config.netsapiens && names.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['netsapiens'],
+        message: 'at least one NetSapiens profile is required (set NETSAPIENS_API_TOKEN or NETSAPIENS_CLIENT_ID, or add profiles to the config file)'
+      });
+      return;
+    }
+    if (config.netsapiens && names.includes(DEFAULT_PROFILE)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['profiles', DEFAULT_PROFILE],
+        message: `"${DEFAULT_PROFILE}" is reserved for the top-level netsapiens settings`
+      });
+    }
+    const available = config.netsapiens ? [DEFAULT_PROFILE, ...names] : names;
+    if (config.defaultProfile && !available.includes(config.defaultProfile)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['defaultProfile'],
+        message: `unknown profile "${config.defaultProfile}" (available: ${available.join(', ')})`
+      });
+    }
+  })
+  .transform((config) => ({
+    ...config,
+    defaultProfile: config.defaultProfile || (config.netsapiens ? DEFAULT_PROFILE : Object.keys(config.profiles)[0]),
+    logging: { ...config.logging, level: config.logging.level ?? (config.debug ? 'debug' : 'info') }
+  }));
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Find the config file path from --config/--config=<path> or OITVOIP_CONFIG
+ */
+export function getConfigPath(argv: string[], env: Env): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--config') {
+      if (!argv[i + 1]) {
+        throw new ConfigError('--config requires a file path');
+      }
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith('--config=')) {
+      return argv[i].slice('--config='.length);
+    }
+  }
+  return env.OITVOIP_CONFIG || undefined;
+}
+
+/**
+ * Read a JSON or YAML config file, chosen by extension
+ */
+export function readConfigFile(path: string): unknown {
+  let contents: string;
+  try {
+    contents = readFileSync(path, 'utf8');
+  } catch (error: any) {
+    throw new ConfigError(`Unable to read config file ${path}: ${error.message}`);
+  }
+
+  try {
+    const extension = extname(path).toLowerCase();
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error: any) {
+    throw new ConfigError(`Unable to parse config file ${path}: ${error.message}`);
+  }
+}
+
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined || value === '' ? undefined : Number(value);
+
+// Comma-separated values, e.g. MCP_API_KEYS=key1,key2
+const toList = (value: string | undefined): string[] | undefined =>
+  value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+
+// Read one profile's settings from environment variables sharing a prefix
+const getEnvProfile = (env: Env, prefix: string): Record<string, unknown> | undefined => {
+  const clientId = env[`${prefix}CLIENT_ID`];
+  const profile = compact({
+    apiUrl: env[`${prefix}API_URL`],
+    apiToken: env[`${prefix}API_TOKEN`],
+    oauth2: clientId
+      ? compact({
+          clientId,
+          clientSecret: env[`${prefix}CLIENT_SECRET`],
+          username: env[`${prefix}USERNAME`],
+          password: env[`${prefix}PASSWORD`],
+          refreshToken: env[`${prefix}REFRESH_TOKEN`]
+        })
+      : undefined
+  });
+  return Object.keys(profile).length > 0 ? profile : undefined;
+};
+
+/**
+ * Build the configuration implied by environment variables alone
+ */
+export function getEnvConfig(env: Env): Record<string, unknown> {
+  // Named profiles: NETSAPIENS_PROFILES=production,lab reads NETSAPIENS_PRODUCTION_API_TOKEN, ...
+  const profiles: Record<string, unknown> = {};
+  const profileNames = toList(env.NETSAPIENS_PROFILES) || [];
+  for (const name of profileNames) {
+    const prefix = `NETSAPIENS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    profiles[name] = getEnvProfile(env, prefix) || {};
+  }
+
+  return compact({
+    netsapiens: getEnvProfile(env, 'NETSAPIENS_'),
+    profiles: profileNames.length > 0 ? profiles : undefined,
+    defaultProfile: env.NETSAPIENS_DEFAULT_PROFILE,
+    debug: env.DEBUG !== undefined ? env.DEBUG === 'true' : undefined,
+    transport: compact({
+      type: env.MCP_TRANSPORT,
+      host: env.MCP_HTTP_HOST,
+      port: toNumber(env.MCP_HTTP_PORT),
+      apiKeys: toList(env.MCP_API_KEYS)
+    }),
+    logging: compact({
+      level: env.LOG_LEVEL,
+      redact: compact({
+        fields: toList(env.LOG_REDACT_FIELDS),
+        phoneNumbers: env.LOG_REDACT_PHONE_NUMBERS !== undefined ? env.LOG_REDACT_PHONE_NUMBERS !== 'false' : undefined
+      })
+    }),
+    policy: compact({
+      readOnly: env.MCP_READ_ONLY !== undefined ? env.MCP_READ_ONLY === 'true' : undefined,
+      tools: compact({ allow: toList(env.MCP_ALLOW_TOOLS), deny: toList(env.MCP_DENY_TOOLS) }),
+      domains: compact({ allow: toList(env.MCP_ALLOW_DOMAINS), deny: toList(env.MCP_DENY_DOMAINS) }),
+      revealSipCredentials: env.MCP_REVEAL_SIP_CREDENTIALS !== undefined ? env.MCP_REVEAL_SIP_CREDENTIALS === 'true' : undefined
+    }),
+    audit: compact({
+      enabled: env.AUDIT_LOG_ENABLED !== undefined ? env.AUDIT_LOG_ENABLED !== 'false' : undefined,
+      path: env.AUDIT_LOG_PATH
+    })
+  });
+}
+
+/**
+ * Load, merge and validate the server configuration.
+ * Environment variables override values from the config file.
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2), env: Env = process.env): MCPServerConfig {
+  const path = getConfigPath(argv, env);
+  const fileConfig = path ? readConfigFile(path) : {};
+  if (!isPlainObject(fileConfig)) {
+    throw new ConfigError(`Config file ${path} must contain an object`);
+  }
+
+  const envConfig = getEnvConfig(env);
+  // A bare NETSAPIENS_API_URL should not create a default profile without credentials
+  const envDefault = envConfig.netsapiens as Record<string, unknown> | undefined;
+  if (envDefault && !fileConfig.netsapiens && !envDefault.apiToken && !envDefault.oauth2) {
+    delete envConfig.netsapiens;
+  }
+  const merged = merge(fileConfig, envConfig);
+
+  // Timeout, retry and cache overrides apply to every profile
+  const timeout = toNumber(env.NETSAPIENS_TIMEOUT);
+  const maxRetries = toNumber(env.NETSAPIENS_MAX_RETRIES);
+  const cacheEnabled = env.NETSAPIENS_CACHE_ENABLED !== undefined ? env.NETSAPIENS_CACHE_ENABLED !== 'false' : undefined;
+  const applyOverrides = (profile: unknown) => {
+    if (!isPlainObject(profile)) {
+      return;
+    }
+    if (timeout !== undefined) {
+      profile.timeout = timeout;
+    }
+    if (maxRetries !== undefined) {
+      profile.retry = { baseDelayMs: 500, maxDelayMs: 10000, ...profile.retry, maxRetries };
+    }
+    if (cacheEnabled !== undefined) {
+      profile.cache = { ...profile.cache, enabled: cacheEnabled };
+    }
+  };
+  applyOverrides(merged.netsapiens);
+  if (isPlainObject(merged.profiles)) {
+    Object.values(merged.profiles).forEach(applyOverrides);
+  }
+
+  const result = mcpServerConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid configuration${path ? ` (${path})` : ''}`,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Drop undefined values so they don't override anything when merged
+function compact<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function merge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? merge(result[key], value) : value;
+  }
+  return result;
+}
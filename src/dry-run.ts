@@ -0,0 +1,84 @@
+/**
+ * Dry-run support for OITVOIP MCP Server
+ * Captures the mutating NetSapiens requests a write tool would send instead of sending them
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { isDeepStrictEqual } from 'node:util';
+
+/** A request a write tool would have sent */
+export interface PlannedRequest {
+  method: string;
+  /** Full URL, including query parameters */
+  url: string;
+  /** Request headers; credentials are replaced with [REDACTED] */
+  headers: Record<string, string>;
+  /** Request body; credentials are replaced with [REDACTED] */
+  body?: unknown;
+}
+
+/** One field that differs between the before and after state */
+export interface FieldChange {
+  /** Dotted path of the field, e.g. "login_status" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const plannedStorage = new AsyncLocalStorage<PlannedRequest[]>();
+
+// Previews never show credentials, whether given by the caller or generated for the call
+const CREDENTIAL_FIELDS = new Set(['authorization', 'password', 'voicemail_pin', 'voicemailpin', 'sip_password', 'sippassword']);
+
+/**
+ * Replace the credential fields of a request's headers or body, or of tool arguments, with [REDACTED]
+ */
+export function redactCredentials<T>(value: T): T {
+  if (!isObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, CREDENTIAL_FIELDS.has(key.toLowerCase()) && field !== undefined ? '[REDACTED]' : field])
+  ) as T;
+}
+
+/**
+ * Run fn with mutating NetSapiens requests captured rather than sent; reads still go through
+ */
+export async function captureWrites<T>(fn: () => Promise<T>): Promise<{ result: T; requests: PlannedRequest[] }> {
+  const requests: PlannedRequest[] = [];
+  const result = await plannedStorage.run(requests, fn);
+  return { result, requests };
+}
+
+/**
+ * Where NetSapiensClient records a mutating request; undefined outside captureWrites
+ */
+export function getPlannedRequests(): PlannedRequest[] | undefined {
+  return plannedStorage.getStore();
+}
+
+/**
+ * Field-level differences between two states; nested objects are compared field by field,
+ * arrays and other values as a whole. A missing (null) state compares as an empty object,
+ * so creating or deleting an object lists each of its fields.
+ */
+export function diff(before: unknown, after: unknown, path: string = ''): FieldChange[] {
+  if (!path && before == null && isObject(after)) {
+    return diff({}, after);
+  }
+  if (!path && isObject(before) && after == null) {
+    return diff(before, {});
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diff(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (isDeepStrictEqual(before, after)) {
+    return [];
+  }
+  return [{ path: path || '(root)', before, after }];
+}
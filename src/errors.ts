@@ -0,0 +1,189 @@
+/**
+ * Error types for OITVOIP MCP Server
+ * Typed NetSapiens API failures so handlers can tell "not found" from "token expired"
+ */
+
+import { AxiosError } from 'axios';
+import { parseRetryAfter } from './retry.js';
+
+export type NetSapiensErrorType =
+  | 'not_found'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'validation'
+  | 'upstream'
+  | 'timeout';
+
+export interface NetSapiensErrorDetails {
+  /** HTTP status returned by NetSapiens, if any */
+  status?: number;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** API endpoint of the failed request */
+  endpoint?: string;
+  /** Error body returned by NetSapiens */
+  body?: unknown;
+}
+
+export class NetSapiensError extends Error {
+  readonly type: NetSapiensErrorType = 'upstream';
+  /** Whether repeating the same request later may succeed */
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, details: NetSapiensErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.body = details.body;
+  }
+
+  toJSON() {
+    return {
+      type: this.type,
+      message: this.message,
+      retryable: this.retryable,
+      status: this.status,
+      method: this.method,
+      endpoint: this.endpoint,
+      body: this.body
+    };
+  }
+}
+
+export class NetSapiensNotFoundError extends NetSapiensError {
+  readonly type = 'not_found';
+}
+
+export class NetSapiensUnauthorizedError extends NetSapiensError {
+  readonly type = 'unauthorized';
+}
+
+/** Obtaining or refreshing an OAuth2 token failed, so the API request was never sent */
+export class NetSapiensAuthError extends NetSapiensUnauthorizedError {}
+
+export class NetSapiensForbiddenError extends NetSapiensError {
+  readonly type = 'forbidden';
+}
+
+export class NetSapiensRateLimitedError extends NetSapiensError {
+  readonly type = 'rate_limited';
+  readonly retryable = true;
+
+  constructor(message: string, details: NetSapiensErrorDetails = {}, readonly retryAfterMs?: number) {
+    super(message, details);
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+export class NetSapiensValidationError extends NetSapiensError {
+  readonly type = 'validation';
+}
+
+export class NetSapiensUpstreamError extends NetSapiensError {
+  readonly type = 'upstream';
+  readonly retryable = true;
+}
+
+export class NetSapiensTimeoutError extends NetSapiensError {
+  readonly type = 'timeout';
+  readonly retryable = true;
+}
+
+// NetSapiens error bodies usually carry a message or error field
+function getBodyMessage(body: unknown): string | undefined {
+  if (typeof body === 'string' && body.trim()) {
+    return body.trim();
+  }
+  if (body && typeof body === 'object') {
+    const { message, error } = body as Record<string, unknown>;
+    if (typeof message === 'string') {
+      return message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert any failure from the axios pipeline into a typed NetSapiensError
+ */
+export function toNetSapiensError(error: unknown): NetSapiensError {
+  if (error instanceof NetSapiensError) {
+    return error;
+  }
+  if (!(error instanceof AxiosError)) {
+    return new NetSapiensError(error instanceof Error ? error.message : String(error));
+  }
+
+  const details: NetSapiensErrorDetails = {
+    status: error.response?.status,
+    method: error.config?.method?.toUpperCase(),
+    endpoint: error.config?.url,
+    body: error.response?.data
+  };
+  const request = `${details.method || 'GET'} ${details.endpoint || ''}`.trim();
+
+  if (!error.response) {
+    if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+      return new NetSapiensTimeoutError(`NetSapiens request timed out: ${request}`, details);
+    }
+    return new NetSapiensUpstreamError(`NetSapiens request failed: ${request}: ${error.message}`, details);
+  }
+
+  const status = error.response.status;
+  const reason = getBodyMessage(details.body) || error.response.statusText || error.message;
+  const message = `NetSapiens ${request} failed with status ${status}: ${reason}`;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new NetSapiensValidationError(message, details);
+    case 401:
+      return new NetSapiensUnauthorizedError(message, details);
+    case 403:
+      return new NetSapiensForbiddenError(message, details);
+    case 404:
+      return new NetSapiensNotFoundError(message, details);
+    case 408:
+      return new NetSapiensTimeoutError(message, details);
+    case 429:
+      return new NetSapiensRateLimitedError(message, details, parseRetryAfter(error.response.headers?.['retry-after']) ?? undefined);
+    default:
+      // Remaining 4xx statuses (409 conflict, 405, ...) mean the request itself was rejected
+      return status < 500
+        ? new NetSapiensValidationError(message, details)
+        : new NetSapiensUpstreamError(message, details);
+  }
+}
+
+/**
+ * Convert a failure to obtain credentials into a NetSapiensAuthError; the token endpoint's
+ * request must not be mistaken for an API request and replayed or retried
+ */
+export function toNetSapiensAuthError(error: unknown): NetSapiensAuthError {
+  if (error instanceof NetSapiensAuthError) {
+    return error;
+  }
+  if (!(error instanceof AxiosError)) {
+    return new NetSapiensAuthError(`NetSapiens OAuth2 token request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const status = error.response?.status;
+  const reason = (error.response && (getBodyMessage(error.response.data) || error.response.statusText)) || error.message;
+  return new NetSapiensAuthError(
+    `NetSapiens OAuth2 token request failed${status ? ` with status ${status}` : ''}: ${reason}`,
+    { status, method: error.config?.method?.toUpperCase(), endpoint: error.config?.url }
+  );
+}
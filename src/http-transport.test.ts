@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportServer } from './http-transport.js';
+import { logger } from './logger.js';
+
+logger.configure({ level: 'error' });
+
+describe('HttpTransportServer', () => {
+  let transport: HttpTransportServer;
+  let baseUrl: string;
+  let stream: AbortController;
+
+  beforeEach(async () => {
+    transport = new HttpTransportServer(
+      { host: '127.0.0.1', port: 0, apiKeys: ['key-a', 'key-b'] },
+      () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+    );
+    baseUrl = `http://127.0.0.1:${await transport.listen()}`;
+    stream = new AbortController();
+  });
+
+  afterEach(async () => {
+    stream.abort();
+    await transport.close();
+  });
+
+  // Open an SSE session and read the messages endpoint it announces
+  const openSession = async (apiKey: string): Promise<string> => {
+    const response = await fetch(`${baseUrl}/sse`, { headers: { Authorization: `Bearer ${apiKey}` }, signal: stream.signal });
+    assert.equal(response.status, 200);
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!/event: endpoint\ndata: .+\n/.test(text)) {
+      const { value, done } = await reader.read();
+      assert.ok(!done, 'SSE stream ended before the endpoint event');
+      text += decoder.decode(value, { stream: true });
+    }
+    return /event: endpoint\ndata: (.+)\n/.exec(text)![1];
+  };
+
+  const postMessage = (endpoint: string, apiKey: string) =>
+    fetch(new URL(endpoint, baseUrl), {
+      method: 'POST',
+      headers: { 'X-API-Key': apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    });
+
+  test('reports liveness to anyone and the session count only with an API key', async () => {
+    await openSession('key-a');
+
+    const anonymous = await fetch(`${baseUrl}/health`);
+    const authenticated = await fetch(`${baseUrl}/health`, { headers: { 'X-API-Key': 'key-b' } });
+
+    assert.deepEqual(await anonymous.json(), { status: 'ok' });
+    assert.deepEqual(await authenticated.json(), { status: 'ok', sessions: 1 });
+  });
+
+  test('rejects requests without a known API key', async () => {
+    const response = await fetch(`${baseUrl}/sse`, { headers: { Authorization: 'Bearer wrong' } });
+
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+  });
+
+  test('only the API key that opened a session may post messages to it', async () => {
+    const endpoint = await openSession('key-a');
+
+    const other = await postMessage(endpoint, 'key-b');
+    assert.equal(other.status, 403);
+    assert.deepEqual(await other.json(), { error: 'Forbidden' });
+
+    const owner = await postMessage(endpoint, 'key-a');
+    await owner.text();
+    assert.equal(owner.status, 202);
+  });
+});
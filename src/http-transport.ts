@@ -0,0 +1,154 @@
+/**
+ * HTTP (SSE) transport for OITVOIP MCP Server
+ * Lets a team share one server instead of each member running a local stdio process
+ */
+
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'http-transport' });
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer tokens / API keys accepted on incoming connections */
+  apiKeys: string[];
+}
+
+/** Who opened an MCP session */
+export interface HttpSessionInfo {
+  /** Short, non-reversible fingerprint of the API key used, e.g. "sha256:3f2a9c0d1e7b" */
+  apiKey: string;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: Server;
+  /** Fingerprint of the API key that opened the session; only that key may post to it */
+  apiKey: string;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+// Hash both sides so timingSafeEqual always compares equal-length buffers
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+export class HttpTransportServer {
+  private httpServer: NodeHttpServer;
+  private sessions = new Map<string, Session>();
+  private readonly keyDigests: Buffer[];
+
+  constructor(private readonly options: HttpTransportOptions, private readonly createMcpServer: (session: HttpSessionInfo) => Server) {
+    this.keyDigests = options.apiKeys.map(digest);
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        log.error('HTTP request failed', { method: req.method, url: req.url, error });
+        if (!res.headersSent) {
+          res.writeHead(500).end('Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening; resolves with the bound port
+   */
+  listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        const address = this.httpServer.address();
+        resolve(typeof address === 'object' && address ? address.port : this.options.port);
+      });
+    });
+  }
+
+  /**
+   * Close every open MCP session, then stop accepting connections
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(({ server }) => server.close()));
+
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const apiKey = this.authenticate(req);
+
+    // Liveness is public; the session count is only shown to callers with an API key
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      this.sendJson(res, 200, apiKey ? { status: 'ok', sessions: this.sessions.size } : { status: 'ok' });
+      return;
+    }
+
+    if (!apiKey) {
+      log.warn('Rejected unauthenticated HTTP request', { method: req.method, path: url.pathname, remoteAddress: req.socket.remoteAddress });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      const server = this.createMcpServer({ apiKey });
+      this.sessions.set(transport.sessionId, { transport, server, apiKey });
+      // server.connect takes over transport.onclose, so watch the stream directly
+      res.on('close', () => {
+        this.sessions.delete(transport.sessionId);
+        log.info('MCP session closed', { sessionId: transport.sessionId });
+      });
+      await server.connect(transport);
+      log.info('MCP session opened', { sessionId: transport.sessionId });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        this.sendJson(res, 404, { error: 'Unknown session' });
+        return;
+      }
+      if (session.apiKey !== apiKey) {
+        log.warn('Rejected message for a session opened with another API key', { sessionId: session.transport.sessionId, apiKey });
+        this.sendJson(res, 403, { error: 'Forbidden' });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    this.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  /**
+   * Accept either "Authorization: Bearer <key>" or "X-API-Key: <key>"; returns the key's fingerprint
+   */
+  private authenticate(req: IncomingMessage): string | undefined {
+    const authorization = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'];
+    const presented = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : typeof apiKey === 'string' ? apiKey : undefined;
+
+    if (!presented) {
+      return undefined;
+    }
+    const presentedDigest = digest(presented);
+    const matched = this.keyDigests.some((keyDigest) => timingSafeEqual(keyDigest, presentedDigest));
+    return matched ? `sha256:${presentedDigest.toString('hex').slice(0, 12)}` : undefined;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
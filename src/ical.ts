@@ -0,0 +1,217 @@
+/**
+ * iCalendar import for OITVOIP MCP Server
+ * Reads the holidays in an .ics file as timeframe dates, expanding yearly recurrences
+ */
+
+import { NetSapiensValidationError } from './errors.js';
+import { NetSapiensTimeframeDate } from './types/config.js';
+
+/** An event that could not be imported, and why */
+export interface SkippedEvent {
+  summary: string;
+  reason: string;
+}
+
+export interface CalendarImport {
+  /** Occurrences in the requested range, sorted by date */
+  dates: NetSapiensTimeframeDate[];
+  skipped: SkippedEvent[];
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarTime {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM; undefined for all-day values */
+  time?: string;
+}
+
+const DAY_MS = 86400000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: string, days: number) => formatDate(new Date(toDate(date).getTime() + days * DAY_MS));
+const daysBetween = (from: string, to: string) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfold = (ics: string) => ics.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeText = (value: string) => value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? ' ' : char));
+
+function parseProperty(line: string): Property | undefined {
+  const colon = line.indexOf(':');
+  if (colon < 0) {
+    return undefined;
+  }
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map((param) => param.split('=', 2)).map(([key, value]) => [key.toUpperCase(), value ?? ''])),
+    value: line.slice(colon + 1)
+  };
+}
+
+// DATE values are YYYYMMDD; DATE-TIME values are taken as written, in the calendar's local time
+function parseTime(value: string): CalendarTime | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}Z?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes] = match;
+  const date = `${year}-${month}-${day}`;
+  if (Number.isNaN(toDate(date).getTime()) || formatDate(toDate(date)) !== date) {
+    return undefined;
+  }
+  return { date, time: hours === undefined ? undefined : `${hours}:${minutes}` };
+}
+
+/**
+ * Day of the month of the nth (or, when negative, nth from last) weekday, e.g. the 4th Thursday of November
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number | undefined {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+    return day <= daysInMonth ? day : undefined;
+  }
+  const last = new Date(Date.UTC(year, month - 1, daysInMonth)).getUTCDay();
+  const day = daysInMonth - ((last - weekday + 7) % 7) + (n + 1) * 7;
+  return day >= 1 ? day : undefined;
+}
+
+/**
+ * Start dates of a yearly recurrence, from the first occurrence up to and including lastDate.
+ * Returns a reason string for rules this importer does not support.
+ */
+function expandYearly(start: string, rrule: string, lastDate: string): string[] | string {
+  const rule = Object.fromEntries(rrule.split(';').map((part) => part.split('=', 2)).map(([key, value]) => [key.toUpperCase(), value ?? '']));
+  if (rule.FREQ !== 'YEARLY') {
+    return `unsupported recurrence FREQ=${rule.FREQ}; only yearly holidays can be imported`;
+  }
+  if ([rule.BYMONTH, rule.BYMONTHDAY, rule.BYDAY].some((value) => value?.includes(','))) {
+    return `unsupported recurrence ${rrule}`;
+  }
+
+  const interval = Number(rule.INTERVAL || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? parseTime(rule.UNTIL)?.date : undefined;
+  const month = Number(rule.BYMONTH || start.slice(5, 7));
+  const byDay = rule.BYDAY ? /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(rule.BYDAY) : undefined;
+  if (!(interval >= 1) || (rule.BYDAY && !byDay?.[1])) {
+    return `unsupported recurrence ${rrule}`;
+  }
+
+  const dates: string[] = [];
+  for (let year = Number(start.slice(0, 4)), occurrences = 0; occurrences < count; year += interval) {
+    const day = byDay
+      ? nthWeekday(year, month, WEEKDAYS.indexOf(byDay[2]), Number(byDay[1]))
+      : Number(rule.BYMONTHDAY || start.slice(8, 10));
+    const date = day === undefined ? undefined : `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    if (date && (date > lastDate || (until && date > until))) {
+      break;
+    }
+    if (year > Number(lastDate.slice(0, 4))) {
+      break;
+    }
+    // A Feb 29 holiday, or a 5th weekday, does not occur every year
+    if (date && date >= start && parseTime(date.replace(/-/g, ''))) {
+      dates.push(date);
+      occurrences++;
+    }
+  }
+  return dates;
+}
+
+/**
+ * Read the events of an iCalendar file as timeframe dates within [from, until] (YYYY-MM-DD).
+ * Yearly recurrences (fixed dates, or e.g. the 4th Thursday of November) are expanded;
+ * cancelled events are ignored, and anything else that can't be read is reported in skipped.
+ */
+export function parseHolidayCalendar(ics: string, range: { from: string; until: string }): CalendarImport {
+  const lines = unfold(ics);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new NetSapiensValidationError('ics is not an iCalendar file (no BEGIN:VCALENDAR)');
+  }
+
+  const dates: NetSapiensTimeframeDate[] = [];
+  const skipped: SkippedEvent[] = [];
+  let event: Property[] | undefined;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = [];
+    } else if (upper === 'END:VEVENT' && event) {
+      const result = readEvent(event, range);
+      if ('reason' in result) {
+        skipped.push(result);
+      } else {
+        dates.push(...result);
+      }
+      event = undefined;
+    } else if (event) {
+      const property = parseProperty(line);
+      if (property) {
+        event.push(property);
+      }
+    }
+  }
+
+  // The same holiday may appear in several of a file's calendars
+  const unique = new Map(dates.map((date) => [`${date.date}|${date.end_date}|${date.start_time}|${date.description}`, date]));
+  return {
+    dates: [...unique.values()].sort((a, b) => a.date.localeCompare(b.date) || (a.start_time || '').localeCompare(b.start_time || '')),
+    skipped
+  };
+}
+
+function readEvent(properties: Property[], range: { from: string; until: string }): NetSapiensTimeframeDate[] | SkippedEvent {
+  const get = (name: string) => properties.find((property) => property.name === name)?.value;
+  const summary = unescapeText(get('SUMMARY') || '').trim() || '(untitled)';
+  if (get('STATUS')?.toUpperCase() === 'CANCELLED') {
+    return [];
+  }
+
+  const start = parseTime(get('DTSTART') || '');
+  if (!start) {
+    return { summary, reason: `unreadable DTSTART ${get('DTSTART') ?? '(missing)'}` };
+  }
+  const end = get('DTEND') ? parseTime(get('DTEND') as string) : undefined;
+  if (get('DTEND') && !end) {
+    return { summary, reason: `unreadable DTEND ${get('DTEND')}` };
+  }
+
+  // An all-day DTEND is exclusive: a one-day holiday ends the next day
+  const lastDay = !end ? start.date : start.time === undefined ? addDays(end.date, -1) : end.date;
+  const length = Math.max(0, daysBetween(start.date, lastDay));
+
+  const rrule = get('RRULE');
+  const starts = rrule ? expandYearly(start.date, rrule, range.until) : [start.date];
+  if (typeof starts === 'string') {
+    return { summary, reason: starts };
+  }
+
+  const excluded = new Set(
+    properties
+      .filter((property) => property.name === 'EXDATE')
+      .flatMap((property) => property.value.split(','))
+      .map((value) => parseTime(value)?.date)
+  );
+
+  return starts
+    .filter((date) => !excluded.has(date) && date <= range.until && addDays(date, length) >= range.from)
+    .map((date) => ({
+      date,
+      ...(length > 0 ? { end_date: addDays(date, length) } : {}),
+      ...(start.time !== undefined ? { start_time: start.time } : {}),
+      ...(start.time !== undefined && end?.time !== undefined ? { end_time: end.time } : {}),
+      description: summary
+    }));
+}
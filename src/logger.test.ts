@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Logger, withCorrelationId } from './logger.js';
+
+describe('Logger', () => {
+  test('redact masks credentials at any depth', () => {
+    const logger = new Logger();
+
+    const redacted = logger.redact({
+      request: {
+        headers: { Authorization: 'Bearer abc123', 'Content-Type': 'application/json' },
+        body: { user: '100', password: 'hunter2', devices: [{ device: 'sip:100a@acme.example', sip_password: 's3cret' }] }
+      },
+      device: { sipPassword: 's3cret' }
+    });
+
+    assert.deepEqual(redacted, {
+      request: {
+        headers: { Authorization: '[REDACTED]', 'Content-Type': 'application/json' },
+        body: { user: '100', password: '[REDACTED]', devices: [{ device: 'sip:100a@acme.example', sip_password: '[REDACTED]' }] }
+      },
+      device: { sipPassword: '[REDACTED]' }
+    });
+  });
+
+  test('redact masks phone numbers and configured fields, and survives cycles', () => {
+    const logger = new Logger({ redact: { fields: ['Account_Code'] } });
+    const cyclic: Record<string, unknown> = { caller: '+1 (555) 123-4567', date: '2024-05-01', account_code: '991' };
+    cyclic.self = cyclic;
+
+    assert.deepEqual(logger.redact(cyclic), {
+      caller: '***4567',
+      date: '2024-05-01',
+      account_code: '[REDACTED]',
+      self: '[Circular]'
+    });
+    assert.deepEqual(logger.redact(new Error('No route to 555-123-4567')), { name: 'Error', message: 'No route to ***4567' });
+
+    logger.configure({ redact: { phoneNumbers: false } });
+    assert.equal(logger.redact('+15551234567'), '+15551234567');
+  });
+
+  test('redact masks bare numbers only in phone fields and API paths', () => {
+    const logger = new Logger();
+
+    assert.deepEqual(
+      logger.redact({
+        phonenumber: '15551000199',
+        simultaneousRing: ['15551000999', '101'],
+        url: '/domains/acme.example/phonenumbers/15551000199',
+        message: 'Retried after 1760000000 with call 8812345678901',
+        caller: '+1 555 123 4567'
+      }),
+      {
+        phonenumber: '***0199',
+        simultaneousRing: ['***0999', '101'],
+        url: '/domains/acme.example/phonenumbers/***0199',
+        message: 'Retried after 1760000000 with call 8812345678901',
+        caller: '***4567'
+      }
+    );
+  });
+
+  test('leaves correlation and session IDs intact', () => {
+    const lines: string[] = [];
+    const logger = new Logger({}, (line) => lines.push(line));
+    const correlationId = '3f0c2a1e-9b7d-4a2c-a284-612092001186';
+
+    withCorrelationId(() => logger.info('Opened', { sessionId: '5551234567', uuid: 'e1d2c3b4-a284-612092001186' }), correlationId);
+
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.correlationId, correlationId);
+    assert.equal(entry.sessionId, '5551234567');
+    assert.equal(entry.uuid, 'e1d2c3b4-a284-612092001186');
+  });
+
+  test('writes redacted JSON lines at or above the configured level', () => {
+    const lines: string[] = [];
+    const logger = new Logger({ level: 'warn' }, (line) => lines.push(line));
+    const child = logger.child({ component: 'auth' });
+
+    child.info('Skipped');
+    withCorrelationId(() => child.warn('Token refresh failed', { error: { refresh_token: 'r-1', status: 401 } }), 'req-1');
+
+    assert.equal(lines.length, 1);
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.level, 'warn');
+    assert.equal(entry.msg, 'Token refresh failed');
+    assert.equal(entry.component, 'auth');
+    assert.equal(entry.correlationId, 'req-1');
+    assert.deepEqual(entry.error, { refresh_token: '[REDACTED]', status: 401 });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Structured logging for OITVOIP MCP Server
+ * Leveled JSON lines on stderr (stdout carries the stdio transport), with secrets and PII redacted
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface RedactionOptions {
+  /** Field names (case-insensitive) redacted in addition to the built-in list */
+  fields?: string[];
+  /** Mask all but the last four digits of phone numbers (default: true) */
+  phoneNumbers?: boolean;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  redact?: RedactionOptions;
+}
+
+/** Credentials and subscriber PII that never reach the log */
+export const DEFAULT_REDACTED_FIELDS = [
+  'authorization',
+  'apiToken',
+  'token',
+  'access_token',
+  'refresh_token',
+  'refreshToken',
+  'password',
+  'voicemail_pin',
+  'voicemailPin',
+  'client_secret',
+  'clientSecret',
+  'x-api-key',
+  'email',
+  'first_name',
+  'last_name',
+  'firstName',
+  'lastName',
+  'name_first_name',
+  'name_last_name',
+  'subscriber_name',
+  'caller_name',
+  'sip_password',
+  'sipPassword'
+];
+
+const REDACTED = '[REDACTED]';
+
+// Written-out numbers such as +15551234567, +1 (555) 123-4567 or 555.123.4567 need a leading + or
+// separators; bare digit runs are IDs, UUID parts, timestamps or durations as often as phone numbers
+const PHONE_PATTERN = /(?<![\w.-])(?:\+\d{1,3}[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}|(?:\d{1,3}[\s.-])?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4})(?![\w-])/g;
+
+// Bare numbers are masked where the context says they are phone numbers: API paths and phone fields
+const PHONE_PATH_PATTERN = /(?<=\/phonenumbers\/)\+?\d{10,15}(?![\w-])/g;
+const BARE_PHONE_NUMBER = /^\+?\d{10,15}$/;
+const PHONE_FIELDS = new Set([
+  'phonenumber',
+  'phonenumbers',
+  'phone_number',
+  'caller',
+  'callee',
+  'caller_id',
+  'callerid',
+  'destination',
+  'forward',
+  'forward_busy',
+  'forward_no_answer',
+  'forward_offline',
+  'simultaneous_ring',
+  'forwardalways',
+  'forwardbusy',
+  'forwardnoanswer',
+  'forwardoffline',
+  'simultaneousring'
+]);
+
+// Correlation and session IDs must stay intact so log lines can be joined up
+const STRUCTURAL_FIELDS = new Set(['correlationid', 'sessionid', 'requestid']);
+
+interface LoggerSettings {
+  level: LogLevel;
+  redactedFields: Set<string>;
+  redactPhoneNumbers: boolean;
+  write: (line: string) => void;
+}
+
+const correlationStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn with a correlation ID attached to every log line written during it
+ */
+export function withCorrelationId<T>(fn: () => T, correlationId: string = randomUUID()): T {
+  return correlationStorage.run(correlationId, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+export class Logger {
+  private settings: LoggerSettings;
+  private bindings: Record<string, unknown> = {};
+
+  constructor(options: LoggerOptions = {}, write: (line: string) => void = (line) => process.stderr.write(`${line}\n`)) {
+    this.settings = {
+      level: 'info',
+      redactedFields: new Set(DEFAULT_REDACTED_FIELDS.map((field) => field.toLowerCase())),
+      redactPhoneNumbers: true,
+      write
+    };
+    this.configure(options);
+  }
+
+  configure(options: LoggerOptions): void {
+    this.settings.level = options.level ?? this.settings.level;
+    if (options.redact?.fields) {
+      this.settings.redactedFields = new Set(
+        [...DEFAULT_REDACTED_FIELDS, ...options.redact.fields].map((field) => field.toLowerCase())
+      );
+    }
+    this.settings.redactPhoneNumbers = options.redact?.phoneNumbers ?? this.settings.redactPhoneNumbers;
+  }
+
+  /**
+   * Logger that adds fixed fields (e.g. component) to every line; configuration stays shared
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    const child = new Logger();
+    child.settings = this.settings;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.settings.level);
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Redact configured fields and phone numbers from any value; correlation and session IDs are left as they are
+   */
+  redact(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+    return this.redactValue(value, seen, false);
+  }
+
+  private redactValue(value: unknown, seen: WeakSet<object>, phoneField: boolean): unknown {
+    if (typeof value === 'string') {
+      if (!this.settings.redactPhoneNumbers) {
+        return value;
+      }
+      if (phoneField && BARE_PHONE_NUMBER.test(value)) {
+        return maskPhoneNumber(value);
+      }
+      return value.replace(PHONE_PATTERN, maskPhoneNumber).replace(PHONE_PATH_PATTERN, maskPhoneNumber);
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactValue(value.message, seen, false) };
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, seen, phoneField));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const field = key.toLowerCase();
+        if (this.settings.redactedFields.has(field)) {
+          return [key, REDACTED];
+        }
+        return [key, STRUCTURAL_FIELDS.has(field) ? item : this.redactValue(item, seen, PHONE_FIELDS.has(field))];
+      })
+    );
+  }
+
+  private log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const correlationId = getCorrelationId();
+    const entry = this.redact({
+      msg: message,
+      ...this.bindings,
+      ...(correlationId ? { correlationId } : {}),
+      ...fields
+    }) as Record<string, unknown>;
+    this.settings.write(JSON.stringify({ time: new Date().toISOString(), level, ...entry }));
+  }
+}
+
+function maskPhoneNumber(match: string): string {
+  const digits = match.replace(/\D/g, '');
+  return `***${digits.slice(-4)}`;
+}
+
+/** Process-wide logger, configured once at startup */
+export const logger = new Logger();
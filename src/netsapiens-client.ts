@@ -8,80 +8,440 @@ import {
   NetSapiensConfig, 
   NetSapiensApiResponse, 
   NetSapiensUser, 
+  NetSapiensUserFields,
   NetSapiensDomain, 
   NetSapiensCDR, 
   NetSapiensDevice,
+  NetSapiensDeviceFields,
+  NetSapiensDeviceModel,
   NetSapiensPhoneNumber,
+  NetSapiensPhoneNumberFields,
+  NetSapiensPhone,
+  NetSapiensPhoneFields,
+  NetSapiensQueueAgentFields,
   NetSapiensCallQueue,
+  NetSapiensCallQueueFields,
   NetSapiensAgent,
+  NetSapiensAgentStatus,
   NetSapiensAutoAttendant,
+  NetSapiensAutoAttendantFields,
+  NetSapiensConference,
   NetSapiensAnswerRule,
+  NetSapiensAnswerRuleFields,
+  NetSapiensTimeframe,
+  NetSapiensTimeframeFields,
   NetSapiensGreeting,
   NetSapiensVoicemail,
   NetSapiensMusicOnHold,
-  NetSapiensBilling
+  NetSapiensBilling,
+  NetSapiensAgentStatistics,
+  NetSapiensPagination,
+  NetSapiensSchemaWarning
 } from './types/config.js';
+import { recordUpstreamCall } from './audit.js';
+import { AuthProvider, createAuthProvider } from './auth.js';
+import { getPlannedRequests, PlannedRequest, redactCredentials } from './dry-run.js';
+import { NetSapiensAuthError, NetSapiensValidationError, toNetSapiensAuthError, toNetSapiensError } from './errors.js';
+import { logger } from './logger.js';
+import { getRateLimiter, RateLimitStatus, TokenBucketRateLimiter } from './rate-limiter.js';
+import { getEndpointDomain, matchCachedEndpoint, ResponseCache } from './response-cache.js';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, isRetryableRequest, sleep } from './retry.js';
+import {
+  EntitySchema,
+  agentSchema,
+  agentStatisticsSchema,
+  answerRuleSchema,
+  autoAttendantSchema,
+  billingSchema,
+  callQueueSchema,
+  cdrSchema,
+  conferenceSchema,
+  deviceModelSchema,
+  deviceSchema,
+  domainSchema,
+  greetingSchema,
+  musicOnHoldSchema,
+  phoneNumberSchema,
+  phoneSchema,
+  timeframeSchema,
+  toList,
+  userSchema,
+  validateEntity,
+  validateList,
+  voicemailSchema
+} from './schemas.js';
+import { DEFAULT_PAGE_SIZE, MAX_FETCH_ALL_RESULTS, PageOptions, encodePageToken, getStartOffset } from './pagination.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** When the request left the client, for response timing */
+    startedAt?: number;
+  }
+}
+
+const log = logger.child({ component: 'netsapiens-client' });
+
+export interface NetSapiensClientOptions {
+  /** Restrict list results to these domains; records from other domains are dropped */
+  isDomainAllowed?: (domain: string) => boolean;
+}
+
+export interface ReadOptions {
+  /** Skip any cached response and refresh the cache (default: false) */
+  bypassCache?: boolean;
+}
+
+export type CDRQuery = {
+  startDate?: string;
+  endDate?: string;
+  user?: string;
+  domain?: string;
+};
+
+const getDuration = (startedAt?: number): number | undefined =>
+  startedAt === undefined ? undefined : Date.now() - startedAt;
+
+const READ_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Build an endpoint path with each interpolated value as one percent-encoded segment, so an ID
+ * can never add segments or a query, or climb to another domain's endpoints with ".."
+ */
+const apiPath = (strings: TemplateStringsArray, ...segments: string[]): string =>
+  strings.reduce((path, part, index) => {
+    const segment = segments[index - 1];
+    if (segment === '' || segment === '.' || segment === '..') {
+      throw new NetSapiensValidationError(`Invalid path segment "${segment}"`);
+    }
+    return path + encodeURIComponent(segment) + part;
+  });
+
+// NetSapiens takes flags as yes/no; fields that were not given are left out
+const toRequestBody = (fields: object): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, typeof value === 'boolean' ? (value ? 'yes' : 'no') : value])
+  );
 
 export class NetSapiensClient {
   private client: AxiosInstance;
   private config: NetSapiensConfig;
+  private authProvider: AuthProvider;
+  private rateLimiter: TokenBucketRateLimiter | null = null;
+  private cache: ResponseCache | null = null;
 
-  constructor(config: NetSapiensConfig) {
+  constructor(config: NetSapiensConfig, private readonly options: NetSapiensClientOptions = {}) {
     this.config = config;
+    this.authProvider = createAuthProvider(config);
+    if (config.cache?.enabled) {
+      this.cache = new ResponseCache(config.cache.maxEntries);
+    }
     
     this.client = axios.create({
       baseURL: `${config.apiUrl}/ns-api/v2`,
       timeout: config.timeout || 30000,
       headers: {
-        'Authorization': `Bearer ${config.apiToken}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json',
         'User-Agent': 'OITVOIP-MCP-Server/1.0.0'
       }
     });
 
+    // In a dry run, mutating requests are recorded and answered locally instead of being sent.
+    // Registered first so it runs last, once auth has set the headers it records
+    this.client.interceptors.request.use((requestConfig) => {
+      const planned = getPlannedRequests();
+      if (planned && !READ_METHODS.includes((requestConfig.method || 'get').toLowerCase())) {
+        const request: PlannedRequest = {
+          method: (requestConfig.method || 'get').toUpperCase(),
+          url: this.client.getUri(requestConfig),
+          headers: redactCredentials(requestConfig.headers.toJSON(true) as Record<string, string>),
+          body: redactCredentials(requestConfig.data)
+        };
+        planned.push(request);
+        requestConfig.adapter = async (config) => ({ data: null, status: 200, statusText: 'OK (dry run)', headers: {}, config });
+      }
+      return requestConfig;
+    });
+
+    // Interceptors run in reverse order, so timing starts after rate limiting and auth
+    this.client.interceptors.request.use((requestConfig) => {
+      requestConfig.startedAt = Date.now();
+      log.debug('NetSapiens request', {
+        method: requestConfig.method?.toUpperCase(),
+        url: requestConfig.url,
+        params: requestConfig.params,
+        retryCount: requestConfig.retryCount
+      });
+      return requestConfig;
+    });
+
+    // Attach credentials from the auth provider, refreshing tokens as needed
+    this.client.interceptors.request.use(async (requestConfig) => {
+      try {
+        requestConfig.headers.Authorization = await this.authProvider.getAuthorizationHeader();
+      } catch (error) {
+        throw toNetSapiensAuthError(error);
+      }
+      return requestConfig;
+    });
+
+    // Queue requests once the configured budget for this API token is spent
+    if (config.rateLimit) {
+      const rateLimiter = getRateLimiter(this.authProvider.key, config.rateLimit);
+      this.rateLimiter = rateLimiter;
+      this.client.interceptors.request.use(async (requestConfig) => {
+        await rateLimiter.acquire();
+        return requestConfig;
+      });
+    }
+
     // Add response interceptor for error handling
+    const retryOptions = config.retry || DEFAULT_RETRY_OPTIONS;
     this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        console.error('NetSapiens API Error:', {
+      (response) => {
+        log.debug('NetSapiens response', {
+          method: response.config.method?.toUpperCase(),
+          url: response.config.url,
+          status: response.status,
+          durationMs: getDuration(response.config.startedAt)
+        });
+        recordUpstreamCall({ method: response.config.method?.toUpperCase() || 'GET', endpoint: response.config.url || '', status: response.status });
+        this.invalidateCache(response.config);
+        return response;
+      },
+      async (error) => {
+        // No API request was sent, so there is nothing to replay or retry
+        if (error instanceof NetSapiensAuthError) {
+          log.warn('NetSapiens OAuth2 token request failed', { status: error.status, error: error.message });
+          return Promise.reject(error);
+        }
+
+        log.warn('NetSapiens API error', {
+          method: error.config?.method?.toUpperCase(),
+          url: error.config?.url,
           status: error.response?.status,
           statusText: error.response?.statusText,
-          data: error.response?.data,
-          url: error.config?.url
+          code: error.code,
+          durationMs: getDuration(error.config?.startedAt),
+          data: error.response?.data
         });
-        return Promise.reject(error);
+        recordUpstreamCall({ method: error.config?.method?.toUpperCase() || 'GET', endpoint: error.config?.url || '', status: error.response?.status });
+        // A failed write may still have been applied
+        if (error.config) {
+          this.invalidateCache(error.config);
+        }
+
+        // Refresh credentials and replay the original request once on 401
+        if (error.response?.status === 401 && error.config && !error.config.authRetried) {
+          if (await this.authProvider.invalidate()) {
+            return this.client.request({ ...error.config, authRetried: true });
+          }
+        }
+
+        // Retry transient failures of idempotent requests with backoff
+        const retryCount = error.config?.retryCount || 0;
+        if (isRetryableRequest(error) && retryCount < retryOptions.maxRetries) {
+          const delay = getRetryDelay(retryCount, retryOptions, error.response?.headers?.['retry-after']);
+          if (delay !== null) {
+            log.info('Retrying NetSapiens request', {
+              method: error.config.method?.toUpperCase(),
+              url: error.config.url,
+              attempt: retryCount + 1,
+              delayMs: delay
+            });
+            await sleep(delay);
+            return this.client.request({ ...error.config, retryCount: retryCount + 1 });
+          }
+        }
+
+        return Promise.reject(toNetSapiensError(error));
       }
     );
   }
 
   /**
-   * Search for users across all domains in NetSapiens
+   * Describe this client's target platform without exposing credentials
    */
-  async searchUsers(query: string, domain?: string, limit: number = 20): Promise<NetSapiensApiResponse<NetSapiensUser[]>> {
-    try {
-      let endpoint = '/domains/~/users/~';
-      if (domain) {
-        endpoint = `/domains/${domain}/users`;
+  describe(): { apiUrl: string; auth: 'oauth2' | 'token' } {
+    return {
+      apiUrl: this.config.apiUrl,
+      auth: this.config.oauth2 ? 'oauth2' : 'token'
+    };
+  }
+
+  /**
+   * Get current rate limit budget usage, or null when rate limiting is disabled
+   */
+  getRateLimitStatus(): RateLimitStatus | null {
+    return this.rateLimiter ? this.rateLimiter.getStatus() : null;
+  }
+
+  /**
+   * Iterate over every page of a list endpoint using offset/limit paging
+   */
+  async *paginate<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    pageSize: number = DEFAULT_PAGE_SIZE,
+    startOffset: number = 0,
+    options: ReadOptions = {}
+  ): AsyncGenerator<T[]> {
+    let offset = startOffset;
+
+    while (true) {
+      const body = await this.getData(endpoint, { ...params, limit: pageSize, offset }, options);
+      const items = toList(body) as T[];
+
+      if (items.length > 0) {
+        yield items;
       }
+      if (items.length < pageSize) {
+        return;
+      }
+      offset += items.length;
+    }
+  }
 
-      const response: AxiosResponse = await this.client.get(endpoint, {
-        params: {
-          user: query,
-          limit
+  /**
+   * GET an endpoint's response body, from the cache when the endpoint is cacheable
+   */
+  private async getData(endpoint: string, params?: Record<string, any>, options: ReadOptions = {}): Promise<unknown> {
+    const fetch = async () => (await this.client.get(endpoint, { params })).data;
+    const cached = this.cache ? matchCachedEndpoint(endpoint) : undefined;
+    const ttlMs = cached ? this.config.cache?.ttlMs[cached.name] : undefined;
+    if (!this.cache || !cached || !ttlMs) {
+      return fetch();
+    }
+
+    const key = params ? `${endpoint} ${JSON.stringify(params)}` : endpoint;
+    return this.cache.get(key, ttlMs, cached.domain, fetch, options.bypassCache);
+  }
+
+  /**
+   * Drop cached responses a completed write may have changed. Dry runs change nothing.
+   */
+  private invalidateCache(requestConfig: { method?: string; url?: string }): void {
+    const method = (requestConfig.method || 'get').toLowerCase();
+    if (!this.cache || READ_METHODS.includes(method) || getPlannedRequests()) {
+      return;
+    }
+    this.cache.invalidate(getEndpointDomain(requestConfig.url || ''));
+  }
+
+  /**
+   * Fetch one page (or every page, with fetchAll) of a list endpoint
+   */
+  private async listPage<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    options: PageOptions & ReadOptions,
+    defaultLimit: number,
+    schema: EntitySchema<T>,
+    entity: string
+  ): Promise<{ data: T[]; pagination: NetSapiensPagination; warnings?: NetSapiensSchemaWarning[] }> {
+    const limit = options.limit || defaultLimit;
+    const offset = getStartOffset(options, limit);
+    let data: unknown[] = [];
+
+    if (options.fetchAll) {
+      for await (const page of this.paginate<unknown>(endpoint, params, DEFAULT_PAGE_SIZE, offset, options)) {
+        data.push(...page);
+        if (data.length > MAX_FETCH_ALL_RESULTS) {
+          break;
         }
-      });
+      }
+    } else {
+      // Ask for one extra result so we know whether another page exists
+      const body = await this.getData(endpoint, { ...params, limit: limit + 1, offset }, options);
+      data = toList(body);
+    }
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to search users',
-        data: []
-      };
+    const pageLimit = options.fetchAll ? MAX_FETCH_ALL_RESULTS : limit;
+    const hasMore = data.length > pageLimit;
+    const page = data.slice(0, pageLimit);
+    const validated = validateList(schema, entity, this.scopeToDomains(page, endpoint));
+
+    return {
+      ...validated,
+      pagination: {
+        offset,
+        returned: validated.data.length,
+        hasMore,
+        // Offsets count what NetSapiens returned, including records filtered out by domain scope
+        nextPageToken: hasMore ? encodePageToken(offset + page.length) : undefined
+      }
+    };
+  }
+
+  /**
+   * Drop records outside the allowed domains. Records without a domain field are kept
+   * only when the endpoint itself belongs to an allowed domain.
+   */
+  private scopeToDomains<T>(items: T[], endpoint: string): T[] {
+    const isDomainAllowed = this.options.isDomainAllowed;
+    if (!isDomainAllowed) {
+      return items;
+    }
+
+    const endpointDomain = /^\/domains\/([^/~][^/]*)/.exec(endpoint)?.[1];
+    return items.filter((item) => {
+      const domain = (item as { domain?: unknown } | null)?.domain;
+      return typeof domain === 'string'
+        ? isDomainAllowed(domain)
+        : endpointDomain !== undefined && isDomainAllowed(endpointDomain);
+    });
+  }
+
+  private getUserSearchEndpoint(domain?: string): string {
+    return domain ? apiPath`/domains/${domain}/users` : '/domains/~/users/~';
+  }
+
+  private getCDREndpoint(params: CDRQuery): string {
+    // If specific user and domain provided, use user-specific endpoint
+    if (params.user && params.domain) {
+      return apiPath`/domains/${params.domain}/users/${params.user}/cdrs`;
+    } else if (params.domain) {
+      return apiPath`/domains/${params.domain}/cdrs`;
+    }
+    return '/cdrs';
+  }
+
+  /**
+   * Search for users across all domains in NetSapiens
+   */
+  async searchUsers(query: string, domain?: string, limit: number = 20, options: Omit<PageOptions, 'limit'> = {}): Promise<NetSapiensApiResponse<NetSapiensUser[]>> {
+    return {
+      success: true,
+      ...(await this.listPage(
+        this.getUserSearchEndpoint(domain),
+        { user: query },
+        { ...options, limit },
+        20,
+        userSchema,
+        'user'
+      ))
+    };
+  }
+
+  /**
+   * Iterate over every user matching a search query
+   */
+  async *iterateUsers(query: string, domain?: string, pageSize?: number): AsyncGenerator<NetSapiensUser> {
+    const endpoint = this.getUserSearchEndpoint(domain);
+    for await (const page of this.paginate<unknown>(endpoint, { user: query }, pageSize)) {
+      yield* validateList(userSchema, 'user', this.scopeToDomains(page, endpoint)).data;
+    }
+  }
+
+  /**
+   * Iterate over every user in a domain
+   */
+  async *iterateDomainUsers(domain: string, pageSize?: number): AsyncGenerator<NetSapiensUser> {
+    const endpoint = apiPath`/domains/${domain}/users`;
+    for await (const page of this.paginate<unknown>(endpoint, {}, pageSize)) {
+      yield* validateList(userSchema, 'user', this.scopeToDomains(page, endpoint)).data;
     }
   }
 
@@ -89,121 +449,262 @@ export class NetSapiensClient {
    * Get user details by user ID and domain
    */
   async getUser(userId: string, domain: string): Promise<NetSapiensApiResponse<NetSapiensUser>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}`);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get user',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(userSchema, 'user', response.data)
+    };
+  }
+  /**
+   * Create a user in a domain
+   */
+  async createUser(userId: string, domain: string, fields: NetSapiensUserFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/users`, { user: userId, ...toRequestBody(fields) });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'User created successfully'
+    };
   }
 
   /**
-   * Get call detail records (CDR)
+   * Update some of a user's fields
    */
-  async getCDRRecords(params: {
-    startDate?: string;
-    endDate?: string;
-    user?: string;
-    domain?: string;
-    limit?: number;
-  }): Promise<NetSapiensApiResponse<NetSapiensCDR[]>> {
-    try {
-      let endpoint = '/cdrs';
-      
-      // If specific user and domain provided, use user-specific endpoint
-      if (params.user && params.domain) {
-        endpoint = `/domains/${params.domain}/users/${params.user}/cdrs`;
-      } else if (params.domain) {
-        endpoint = `/domains/${params.domain}/cdrs`;
-      }
+  async updateUser(userId: string, domain: string, fields: NetSapiensUserFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/users/${userId}`, toRequestBody(fields));
 
-      const response: AxiosResponse = await this.client.get(endpoint, {
-        params: {
+    return {
+      success: true,
+      data: response.data,
+      message: 'User updated successfully'
+    };
+  }
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(userId: string, domain: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/users/${userId}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'User deleted successfully'
+    };
+  }
+
+
+  /**
+   * Get call detail records (CDR)
+   */
+  async getCDRRecords(params: CDRQuery & PageOptions): Promise<NetSapiensApiResponse<NetSapiensCDR[]>> {
+    return {
+      success: true,
+      ...(await this.listPage(
+        this.getCDREndpoint(params),
+        {
           start_time: params.startDate,
-          end_time: params.endDate,
-          limit: params.limit || 100
-        }
-      });
+          end_time: params.endDate
+        },
+        params,
+        100,
+        cdrSchema,
+        'CDR'
+      ))
+    };
+  }
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get CDR records',
-        data: []
-      };
+  /**
+   * Iterate over every call detail record matching the query
+   */
+  async *iterateCDRRecords(params: CDRQuery, pageSize?: number): AsyncGenerator<NetSapiensCDR> {
+    const query = {
+      start_time: params.startDate,
+      end_time: params.endDate
+    };
+    const endpoint = this.getCDREndpoint(params);
+    for await (const page of this.paginate<unknown>(endpoint, query, pageSize)) {
+      yield* validateList(cdrSchema, 'CDR', this.scopeToDomains(page, endpoint)).data;
     }
   }
 
   /**
    * Get domain information
    */
-  async getDomains(): Promise<NetSapiensApiResponse<NetSapiensDomain[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get('/domains');
-
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get domains',
-        data: []
-      };
-    }
+  async getDomains(options: PageOptions & ReadOptions = {}): Promise<NetSapiensApiResponse<NetSapiensDomain[]>> {
+    return {
+      success: true,
+      ...(await this.listPage('/domains', {}, options, 100, domainSchema, 'domain'))
+    };
   }
 
   /**
    * Get specific domain information
    */
-  async getDomain(domain: string): Promise<NetSapiensApiResponse<NetSapiensDomain>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}`);
+  async getDomain(domain: string, options: ReadOptions = {}): Promise<NetSapiensApiResponse<NetSapiensDomain>> {
+    const data = await this.getData(apiPath`/domains/${domain}`, undefined, options);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get domain',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(domainSchema, 'domain', data)
+    };
   }
 
   /**
    * Get user devices
    */
   async getUserDevices(userId: string, domain: string): Promise<NetSapiensApiResponse<NetSapiensDevice[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}/devices`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/devices`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get user devices',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(deviceSchema, 'device', response.data)
+    };
+  }
+
+  // ==================== DEVICES ====================
+
+  /**
+   * Get every SIP device in a domain
+   */
+  async getDevices(domain: string): Promise<NetSapiensApiResponse<NetSapiensDevice[]>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/devices`);
+
+    return {
+      success: true,
+      ...validateList(deviceSchema, 'device', response.data)
+    };
+  }
+
+  /**
+   * Get one of a user's SIP devices
+   */
+  async getDevice(domain: string, userId: string, device: string): Promise<NetSapiensApiResponse<NetSapiensDevice>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/devices/${device}`);
+
+    return {
+      success: true,
+      ...validateEntity(deviceSchema, 'device', response.data)
+    };
+  }
+
+  /**
+   * Create a SIP device for a user
+   */
+  async createDevice(domain: string, userId: string, device: string, fields: NetSapiensDeviceFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/users/${userId}/devices`, {
+      device,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Device created successfully'
+    };
+  }
+
+  /**
+   * Update some of a SIP device's fields
+   */
+  async updateDevice(domain: string, userId: string, device: string, fields: NetSapiensDeviceFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/users/${userId}/devices/${device}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Device updated successfully'
+    };
+  }
+
+  /**
+   * Delete a SIP device
+   */
+  async deleteDevice(domain: string, userId: string, device: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/users/${userId}/devices/${device}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Device deleted successfully'
+    };
+  }
+
+  /**
+   * Get the phone models that can be provisioned, with their templates and line key counts
+   */
+  async getDeviceModels(): Promise<NetSapiensApiResponse<NetSapiensDeviceModel[]>> {
+    const response: AxiosResponse = await this.client.get('/devicemodels');
+
+    return {
+      success: true,
+      ...validateList(deviceModelSchema, 'device model', response.data)
+    };
+  }
+
+  /**
+   * Get a domain's MAC-based provisioning entries
+   */
+  async getPhones(domain: string): Promise<NetSapiensApiResponse<NetSapiensPhone[]>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/phones`);
+
+    return {
+      success: true,
+      ...validateList(phoneSchema, 'phone', response.data)
+    };
+  }
+
+  /**
+   * Get one provisioning entry by MAC address
+   */
+  async getPhone(domain: string, mac: string): Promise<NetSapiensApiResponse<NetSapiensPhone>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/phones/${mac}`);
+
+    return {
+      success: true,
+      ...validateEntity(phoneSchema, 'phone', response.data)
+    };
+  }
+
+  /**
+   * Create a provisioning entry for a MAC address
+   */
+  async createPhone(domain: string, mac: string, fields: NetSapiensPhoneFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/phones`, { mac, ...toRequestBody(fields) });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone created successfully'
+    };
+  }
+
+  /**
+   * Update some of a provisioning entry's fields; a line_keys list given replaces every key
+   */
+  async updatePhone(domain: string, mac: string, fields: NetSapiensPhoneFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/phones/${mac}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone updated successfully'
+    };
+  }
+
+  /**
+   * Delete a provisioning entry
+   */
+  async deletePhone(domain: string, mac: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/phones/${mac}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone deleted successfully'
+    };
   }
 
   // ==================== PHONE NUMBER MANAGEMENT ====================
@@ -211,22 +712,27 @@ export class NetSapiensClient {
   /**
    * Get phone numbers for a domain
    */
-  async getPhoneNumbers(domain: string, limit?: number): Promise<NetSapiensApiResponse<NetSapiensPhoneNumber[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/phonenumbers`, {
-        params: { limit }
-      });
+  async getPhoneNumbers(domain: string, limit: number = 100, options: Omit<PageOptions, 'limit'> = {}): Promise<NetSapiensApiResponse<NetSapiensPhoneNumber[]>> {
+    return {
+      success: true,
+      ...(await this.listPage(
+        apiPath`/domains/${domain}/phonenumbers`,
+        {},
+        { ...options, limit },
+        100,
+        phoneNumberSchema,
+        'phone number'
+      ))
+    };
+  }
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get phone numbers',
-        data: []
-      };
+  /**
+   * Iterate over every phone number in a domain
+   */
+  async *iteratePhoneNumbers(domain: string, pageSize?: number): AsyncGenerator<NetSapiensPhoneNumber> {
+    const endpoint = apiPath`/domains/${domain}/phonenumbers`;
+    for await (const page of this.paginate<unknown>(endpoint, {}, pageSize)) {
+      yield* validateList(phoneNumberSchema, 'phone number', this.scopeToDomains(page, endpoint)).data;
     }
   }
 
@@ -234,20 +740,54 @@ export class NetSapiensClient {
    * Get specific phone number details
    */
   async getPhoneNumber(domain: string, phoneNumber: string): Promise<NetSapiensApiResponse<NetSapiensPhoneNumber>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/phonenumbers/${phoneNumber}`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/phonenumbers/${phoneNumber}`);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get phone number',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(phoneNumberSchema, 'phone number', response.data)
+    };
+  }
+
+  /**
+   * Add a phone number to a domain, routed to a destination
+   */
+  async addPhoneNumber(domain: string, phoneNumber: string, fields: NetSapiensPhoneNumberFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/phonenumbers`, {
+      phonenumber: phoneNumber,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone number added successfully'
+    };
+  }
+
+  /**
+   * Update a phone number's routing or description
+   */
+  async updatePhoneNumber(domain: string, phoneNumber: string, fields: NetSapiensPhoneNumberFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/phonenumbers/${phoneNumber}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone number updated successfully'
+    };
+  }
+
+  /**
+   * Release a phone number from a domain
+   */
+  async releasePhoneNumber(domain: string, phoneNumber: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/phonenumbers/${phoneNumber}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Phone number released successfully'
+    };
   }
 
   // ==================== CALL QUEUE MANAGEMENT ====================
@@ -255,61 +795,121 @@ export class NetSapiensClient {
   /**
    * Get call queues for a domain
    */
-  async getCallQueues(domain: string): Promise<NetSapiensApiResponse<NetSapiensCallQueue[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/callqueues`);
+  async getCallQueues(domain: string, options: ReadOptions = {}): Promise<NetSapiensApiResponse<NetSapiensCallQueue[]>> {
+    const data = await this.getData(apiPath`/domains/${domain}/callqueues`, undefined, options);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get call queues',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(callQueueSchema, 'call queue', data)
+    };
   }
 
   /**
    * Get specific call queue details
    */
   async getCallQueue(domain: string, queueId: string): Promise<NetSapiensApiResponse<NetSapiensCallQueue>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/callqueues/${queueId}`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/callqueues/${queueId}`);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get call queue',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(callQueueSchema, 'call queue', response.data)
+    };
   }
 
   /**
    * Get agents for a call queue
    */
   async getCallQueueAgents(domain: string, queueId: string): Promise<NetSapiensApiResponse<NetSapiensAgent[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/callqueues/${queueId}/agents`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/callqueues/${queueId}/agents`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get call queue agents',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(agentSchema, 'agent', response.data)
+    };
+  }
+
+  /**
+   * Create a call queue
+   */
+  async createCallQueue(domain: string, queueId: string, fields: NetSapiensCallQueueFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/callqueues`, {
+      callqueue: queueId,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Call queue created successfully'
+    };
+  }
+
+  /**
+   * Update some of a call queue's fields
+   */
+  async updateCallQueue(domain: string, queueId: string, fields: NetSapiensCallQueueFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/callqueues/${queueId}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Call queue updated successfully'
+    };
+  }
+
+  /**
+   * Delete a call queue
+   */
+  async deleteCallQueue(domain: string, queueId: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/callqueues/${queueId}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Call queue deleted successfully'
+    };
+  }
+
+  /**
+   * Add an agent to a call queue
+   */
+  async addCallQueueAgent(domain: string, queueId: string, agentId: string, fields: NetSapiensQueueAgentFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/callqueues/${queueId}/agents`, {
+      agent: agentId,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Agent added to call queue successfully'
+    };
+  }
+
+  /**
+   * Update an agent's settings in one call queue
+   */
+  async updateCallQueueAgent(domain: string, queueId: string, agentId: string, fields: NetSapiensQueueAgentFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/callqueues/${queueId}/agents/${agentId}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Call queue agent updated successfully'
+    };
+  }
+
+  /**
+   * Remove an agent from a call queue
+   */
+  async removeCallQueueAgent(domain: string, queueId: string, agentId: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/callqueues/${queueId}/agents/${agentId}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Agent removed from call queue successfully'
+    };
   }
 
   // ==================== AGENT MANAGEMENT ====================
@@ -318,62 +918,60 @@ export class NetSapiensClient {
    * Get agents for a domain
    */
   async getAgents(domain: string): Promise<NetSapiensApiResponse<NetSapiensAgent[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/agents`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/agents`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get agents',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(agentSchema, 'agent', response.data)
+    };
   }
 
   /**
    * Login an agent to a call queue
+   * Not retried on failure unless the caller marks it retry-safe
    */
-  async loginAgent(domain: string, queueId: string, agentId: string): Promise<NetSapiensApiResponse<any>> {
-    try {
-      const response: AxiosResponse = await this.client.post(`/domains/${domain}/callqueues/${queueId}/agents/${agentId}/login`);
+  async loginAgent(domain: string, queueId: string, agentId: string, options: { retrySafe?: boolean } = {}): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/callqueues/${queueId}/agents/${agentId}/login`, undefined, {
+      retrySafe: options.retrySafe
+    });
 
-      return {
-        success: true,
-        data: response.data,
-        message: 'Agent logged in successfully'
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to login agent',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      data: response.data,
+      message: 'Agent logged in successfully'
+    };
   }
 
   /**
    * Logout an agent from a call queue
+   * Not retried on failure unless the caller marks it retry-safe
    */
-  async logoutAgent(domain: string, queueId: string, agentId: string): Promise<NetSapiensApiResponse<any>> {
-    try {
-      const response: AxiosResponse = await this.client.post(`/domains/${domain}/callqueues/${queueId}/agents/${agentId}/logout`);
+  async logoutAgent(domain: string, queueId: string, agentId: string, options: { retrySafe?: boolean } = {}): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/callqueues/${queueId}/agents/${agentId}/logout`, undefined, {
+      retrySafe: options.retrySafe
+    });
 
-      return {
-        success: true,
-        data: response.data,
-        message: 'Agent logged out successfully'
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to logout agent',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      data: response.data,
+      message: 'Agent logged out successfully'
+    };
+  }
+
+  /**
+   * Set an agent's status and reason code; queue logins are changed separately
+   */
+  async setAgentStatus(domain: string, agentId: string, status: NetSapiensAgentStatus, reason?: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/agents/${agentId}`, {
+      status,
+      status_reason: reason ?? ''
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Agent status updated successfully'
+    };
   }
 
   // ==================== AUTO ATTENDANT ====================
@@ -382,20 +980,51 @@ export class NetSapiensClient {
    * Get auto attendants for a domain
    */
   async getAutoAttendants(domain: string): Promise<NetSapiensApiResponse<NetSapiensAutoAttendant[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/autoattendants`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/autoattendants`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get auto attendants',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(autoAttendantSchema, 'auto attendant', response.data)
+    };
+  }
+
+  /**
+   * Get one auto attendant
+   */
+  async getAutoAttendant(domain: string, attendantId: string): Promise<NetSapiensApiResponse<NetSapiensAutoAttendant>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/autoattendants/${attendantId}`);
+
+    return {
+      success: true,
+      ...validateEntity(autoAttendantSchema, 'auto attendant', response.data)
+    };
+  }
+
+  /**
+   * Update some of an auto attendant's fields; an options map given replaces the existing one
+   */
+  async updateAutoAttendant(domain: string, attendantId: string, fields: NetSapiensAutoAttendantFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/autoattendants/${attendantId}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Auto attendant updated successfully'
+    };
+  }
+
+  // ==================== CONFERENCES ====================
+
+  /**
+   * Get conference bridges for a domain
+   */
+  async getConferences(domain: string): Promise<NetSapiensApiResponse<NetSapiensConference[]>> {
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/conferences`);
+
+    return {
+      success: true,
+      ...validateList(conferenceSchema, 'conference', response.data)
+    };
   }
 
   // ==================== ANSWER RULES ====================
@@ -404,40 +1033,139 @@ export class NetSapiensClient {
    * Get answer rules for a user
    */
   async getUserAnswerRules(userId: string, domain: string): Promise<NetSapiensApiResponse<NetSapiensAnswerRule[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}/answerrules`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/answerrules`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get answer rules',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(answerRuleSchema, 'answer rule', response.data)
+    };
   }
 
   /**
    * Get specific answer rule for a user
    */
   async getUserAnswerRule(userId: string, domain: string, timeframe: string): Promise<NetSapiensApiResponse<NetSapiensAnswerRule>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}/answerrules/${timeframe}`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/answerrules/${timeframe}`);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get answer rule',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(answerRuleSchema, 'answer rule', response.data)
+    };
+  }
+
+  /**
+   * Create an answer rule for one of a user's timeframes
+   */
+  async createUserAnswerRule(userId: string, domain: string, timeframe: string, fields: NetSapiensAnswerRuleFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(apiPath`/domains/${domain}/users/${userId}/answerrules`, {
+      timeframe,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Answer rule created successfully'
+    };
+  }
+
+  /**
+   * Update some of an answer rule's fields
+   */
+  async updateUserAnswerRule(userId: string, domain: string, timeframe: string, fields: NetSapiensAnswerRuleFields): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(apiPath`/domains/${domain}/users/${userId}/answerrules/${timeframe}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Answer rule updated successfully'
+    };
+  }
+
+  /**
+   * Delete an answer rule
+   */
+  async deleteUserAnswerRule(userId: string, domain: string, timeframe: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(apiPath`/domains/${domain}/users/${userId}/answerrules/${timeframe}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Answer rule deleted successfully'
+    };
+  }
+
+  // ==================== TIMEFRAMES ====================
+
+  // Domain timeframes live under the domain, user timeframes under the user
+  private timeframesPath(domain: string, userId?: string): string {
+    return userId ? apiPath`/domains/${domain}/users/${userId}/timeframes` : apiPath`/domains/${domain}/timeframes`;
+  }
+
+  /**
+   * Get a domain's timeframes, or a user's when userId is given
+   */
+  async getTimeframes(domain: string, userId?: string): Promise<NetSapiensApiResponse<NetSapiensTimeframe[]>> {
+    const response: AxiosResponse = await this.client.get(this.timeframesPath(domain, userId));
+
+    return {
+      success: true,
+      ...validateList(timeframeSchema, 'timeframe', response.data)
+    };
+  }
+
+  /**
+   * Get one domain timeframe, or a user timeframe when userId is given
+   */
+  async getTimeframe(domain: string, timeframe: string, userId?: string): Promise<NetSapiensApiResponse<NetSapiensTimeframe>> {
+    const response: AxiosResponse = await this.client.get(this.timeframesPath(domain, userId) + apiPath`/${timeframe}`);
+
+    return {
+      success: true,
+      ...validateEntity(timeframeSchema, 'timeframe', response.data)
+    };
+  }
+
+  /**
+   * Create a domain timeframe, or a user timeframe when userId is given
+   */
+  async createTimeframe(domain: string, timeframe: string, fields: NetSapiensTimeframeFields, userId?: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.post(this.timeframesPath(domain, userId), {
+      timeframe,
+      ...toRequestBody(fields)
+    });
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Timeframe created successfully'
+    };
+  }
+
+  /**
+   * Update some of a timeframe's fields; lists given replace the existing ones
+   */
+  async updateTimeframe(domain: string, timeframe: string, fields: NetSapiensTimeframeFields, userId?: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.put(this.timeframesPath(domain, userId) + apiPath`/${timeframe}`, toRequestBody(fields));
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Timeframe updated successfully'
+    };
+  }
+
+  /**
+   * Delete a timeframe
+   */
+  async deleteTimeframe(domain: string, timeframe: string, userId?: string): Promise<NetSapiensApiResponse<any>> {
+    const response: AxiosResponse = await this.client.delete(this.timeframesPath(domain, userId) + apiPath`/${timeframe}`);
+
+    return {
+      success: true,
+      data: response.data,
+      message: 'Timeframe deleted successfully'
+    };
   }
 
   // ==================== GREETINGS & VOICEMAIL ====================
@@ -446,40 +1174,24 @@ export class NetSapiensClient {
    * Get user greetings
    */
   async getUserGreetings(userId: string, domain: string): Promise<NetSapiensApiResponse<NetSapiensGreeting[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}/greetings`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/greetings`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get user greetings',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(greetingSchema, 'greeting', response.data)
+    };
   }
 
   /**
    * Get user voicemails
    */
   async getUserVoicemails(userId: string, domain: string): Promise<NetSapiensApiResponse<NetSapiensVoicemail[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/users/${userId}/voicemail`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/users/${userId}/voicemail`);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get user voicemails',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(voicemailSchema, 'voicemail', response.data)
+    };
   }
 
   // ==================== MUSIC ON HOLD ====================
@@ -487,21 +1199,13 @@ export class NetSapiensClient {
   /**
    * Get music on hold files for a domain
    */
-  async getMusicOnHold(domain: string): Promise<NetSapiensApiResponse<NetSapiensMusicOnHold[]>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/moh`);
+  async getMusicOnHold(domain: string, options: ReadOptions = {}): Promise<NetSapiensApiResponse<NetSapiensMusicOnHold[]>> {
+    const data = await this.getData(apiPath`/domains/${domain}/moh`, undefined, options);
 
-      return {
-        success: true,
-        data: Array.isArray(response.data) ? response.data : [response.data]
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get music on hold',
-        data: []
-      };
-    }
+    return {
+      success: true,
+      ...validateList(musicOnHoldSchema, 'music on hold', data)
+    };
   }
 
   // ==================== BILLING ====================
@@ -510,20 +1214,12 @@ export class NetSapiensClient {
    * Get billing information for a domain
    */
   async getBilling(domain: string): Promise<NetSapiensApiResponse<NetSapiensBilling>> {
-    try {
-      const response: AxiosResponse = await this.client.get(`/domains/${domain}/billing`);
+    const response: AxiosResponse = await this.client.get(apiPath`/domains/${domain}/billing`);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get billing information',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...validateEntity(billingSchema, 'billing', response.data)
+    };
   }
 
   // ==================== STATISTICS ====================
@@ -531,25 +1227,19 @@ export class NetSapiensClient {
   /**
    * Get agent statistics
    */
-  async getAgentStatistics(domain: string, agentId?: string): Promise<NetSapiensApiResponse<any>> {
-    try {
-      const endpoint = agentId 
-        ? `/domains/${domain}/statistics/agent/${agentId}`
-        : `/domains/${domain}/statistics/agent`;
-      
-      const response: AxiosResponse = await this.client.get(endpoint);
+  async getAgentStatistics(domain: string, agentId?: string): Promise<NetSapiensApiResponse<NetSapiensAgentStatistics | NetSapiensAgentStatistics[]>> {
+    const endpoint = agentId 
+      ? apiPath`/domains/${domain}/statistics/agent/${agentId}`
+      : apiPath`/domains/${domain}/statistics/agent`;
+    
+    const response: AxiosResponse = await this.client.get(endpoint);
 
-      return {
-        success: true,
-        data: response.data
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Failed to get agent statistics',
-        data: undefined
-      };
-    }
+    return {
+      success: true,
+      ...(Array.isArray(response.data)
+        ? validateList(agentStatisticsSchema, 'agent statistics', response.data)
+        : validateEntity(agentStatisticsSchema, 'agent statistics', response.data))
+    };
   }
 
   /**
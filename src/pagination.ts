@@ -0,0 +1,52 @@
+/**
+ * Pagination helpers for OITVOIP MCP Server
+ * NetSapiens list endpoints page with offset/limit; page tokens wrap the offset
+ */
+
+import { NetSapiensValidationError } from './errors.js';
+
+/** Page size used when walking every page of a list endpoint */
+export const DEFAULT_PAGE_SIZE = 500;
+
+/** Hard cap on results returned by a single fetchAll request */
+export const MAX_FETCH_ALL_RESULTS = 5000;
+
+export interface PageOptions {
+  /** Results per page */
+  limit?: number;
+  /** 1-based page number, ignored when pageToken is given */
+  page?: number;
+  /** Opaque token from a previous response's nextPageToken */
+  pageToken?: string;
+  /** Walk every page up to MAX_FETCH_ALL_RESULTS */
+  fetchAll?: boolean;
+}
+
+export function encodePageToken(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodePageToken(token: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new NetSapiensValidationError(`Invalid pageToken: ${token}`);
+}
+
+/**
+ * Resolve the starting offset from page options
+ */
+export function getStartOffset(options: PageOptions, limit: number): number {
+  if (options.pageToken) {
+    return decodePageToken(options.pageToken);
+  }
+  if (options.page && options.page > 1) {
+    return (options.page - 1) * limit;
+  }
+  return 0;
+}
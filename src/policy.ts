@@ -0,0 +1,162 @@
+/**
+ * Tool permission policy for OITVOIP MCP Server
+ * Config-driven allow/deny rules by tool name, category and domain, checked before dispatch
+ */
+
+import { AllowDenyList, PolicyConfig } from './types/config.js';
+
+export type ToolCategory = 'read' | 'write';
+
+/** What the policy needs to know about a tool */
+export interface PolicyTool {
+  name: string;
+  category: ToolCategory;
+  /** Whether the tool takes a domain argument */
+  domainScoped: boolean;
+}
+
+export class PolicyError extends Error {
+  readonly type = 'policy_denied';
+
+  constructor(message: string, readonly tool: string, readonly reason: 'tool' | 'category' | 'domain' | 'credentials') {
+    super(message);
+    this.name = 'PolicyError';
+  }
+
+  toJSON() {
+    return {
+      type: this.type,
+      message: this.message,
+      tool: this.tool,
+      reason: this.reason
+    };
+  }
+}
+
+// Entries are compared case-insensitively; domains are DNS names and tool names are snake_case
+const normalize = (list?: string[]) => (list ? new Set(list.map((entry) => entry.toLowerCase())) : undefined);
+
+class Rule {
+  private readonly allow?: Set<string>;
+  private readonly deny: Set<string>;
+
+  constructor(list: AllowDenyList = {}, extraDeny: string[] = []) {
+    this.allow = normalize(list.allow);
+    this.deny = normalize([...(list.deny || []), ...extraDeny]) as Set<string>;
+  }
+
+  get restricted(): boolean {
+    return this.allow !== undefined || this.deny.size > 0;
+  }
+
+  permits(value: string): boolean {
+    const key = value.toLowerCase();
+    return !this.deny.has(key) && (!this.allow || this.allow.has(key));
+  }
+
+  entries(): string[] {
+    return [...(this.allow || []), ...this.deny];
+  }
+}
+
+// "*" matches any run of DNS name characters, so "*.acme.example" covers every subdomain.
+// Domain arguments are validated as lowercase DNS names without a trailing dot before they get here
+// (see domainName), so "evil.example.", "evil.example/" or "%65vil.example" can't slip past an exact entry.
+const toDomainPattern = (entry: string): RegExp => {
+  const source = entry.replace(/\.$/, '').replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[a-z0-9_.-]*');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+class DomainRule {
+  private readonly allow?: RegExp[];
+  private readonly deny: RegExp[];
+  /** The single allowed domain, when the allow list is one exact (non-wildcard) domain */
+  readonly only?: string;
+
+  constructor(list: AllowDenyList = {}) {
+    this.allow = list.allow?.map(toDomainPattern);
+    this.deny = (list.deny || []).map(toDomainPattern);
+    if (list.allow?.length === 1 && !list.allow[0].includes('*') && this.permits(list.allow[0])) {
+      this.only = list.allow[0].toLowerCase();
+    }
+  }
+
+  get restricted(): boolean {
+    return this.allow !== undefined || this.deny.length > 0;
+  }
+
+  permits(domain: string): boolean {
+    return !this.deny.some((pattern) => pattern.test(domain)) && (!this.allow || this.allow.some((pattern) => pattern.test(domain)));
+  }
+}
+
+export class ToolPolicy {
+  private readonly tools: Rule;
+  private readonly categories: Rule;
+  private readonly domains: DomainRule;
+  /** Whether device tools may return SIP passwords to callers that ask for them */
+  readonly sipCredentialsAllowed: boolean;
+
+  constructor(config: PolicyConfig = {}) {
+    this.tools = new Rule(config.tools);
+    this.categories = new Rule(config.categories, config.readOnly ? ['write'] : []);
+    this.domains = new DomainRule(config.domains);
+    this.sipCredentialsAllowed = config.revealSipCredentials ?? false;
+  }
+
+  /** Whether the server is pinned to a set of domains */
+  get domainsRestricted(): boolean {
+    return this.domains.restricted;
+  }
+
+  /** Domain filled in when a tool call omits `domain`: set when exactly one domain is allowed */
+  get defaultDomain(): string | undefined {
+    return this.domains.only;
+  }
+
+  isDomainAllowed(domain: string): boolean {
+    return this.domains.permits(domain);
+  }
+
+  /**
+   * Whether a tool may be listed and called at all, regardless of its arguments
+   */
+  isToolAllowed(tool: PolicyTool): boolean {
+    return this.tools.permits(tool.name) && this.categories.permits(tool.category);
+  }
+
+  /**
+   * Throw a PolicyError unless the tool may be called at all
+   */
+  checkTool(tool: PolicyTool): void {
+    if (!this.tools.permits(tool.name)) {
+      throw new PolicyError(`Tool ${tool.name} is disabled by policy`, tool.name, 'tool');
+    }
+    if (!this.categories.permits(tool.category)) {
+      throw new PolicyError(`Tool ${tool.name} is disabled by policy: ${tool.category} tools are not allowed`, tool.name, 'category');
+    }
+  }
+
+  /**
+   * Throw a PolicyError unless the tool may be called with these (validated) arguments
+   */
+  checkArguments(tool: PolicyTool, args: { domain?: unknown }): void {
+    if (!tool.domainScoped || !this.domains.restricted) {
+      return;
+    }
+
+    // Calls without a domain (e.g. a cross-domain search) are allowed; their results are filtered instead
+    const domain = typeof args.domain === 'string' ? args.domain : undefined;
+    if (domain !== undefined && !this.domains.permits(domain)) {
+      throw new PolicyError(`Domain ${domain} is not allowed by policy`, tool.name, 'domain');
+    }
+  }
+
+  /**
+   * Tool names referenced by the policy that are not registered, usually typos
+   */
+  unknownTools(registered: string[]): string[] {
+    const known = new Set(registered.map((name) => name.toLowerCase()));
+    return this.tools.entries().filter((name) => !known.has(name));
+  }
+}
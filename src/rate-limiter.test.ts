@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { getRateLimiter, TokenBucketRateLimiter } from './rate-limiter.js';
+
+describe('TokenBucketRateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test('rejects a non-positive budget', () => {
+    assert.throws(() => new TokenBucketRateLimiter({ requests: 0, perMilliseconds: 1000 }), /must be positive/);
+    assert.throws(() => new TokenBucketRateLimiter({ requests: 10, perMilliseconds: -1 }), /must be positive/);
+  });
+
+  test('queues requests once the bucket is empty and releases them as it refills', async () => {
+    const limiter = new TokenBucketRateLimiter({ requests: 2, perMilliseconds: 1000 });
+
+    assert.equal(await limiter.acquire(), 0);
+    assert.equal(await limiter.acquire(), 0);
+
+    let released = false;
+    const third = limiter.acquire().then((delayMs) => {
+      released = true;
+      return delayMs;
+    });
+    assert.equal(limiter.getStatus().queued, 1);
+
+    mock.timers.tick(499);
+    await Promise.resolve();
+    assert.equal(released, false);
+
+    mock.timers.tick(1);
+    assert.equal(await third, 500);
+    assert.deepEqual(limiter.getStatus(), {
+      limit: 2,
+      windowMs: 1000,
+      remaining: 0,
+      queued: 0,
+      delayedRequests: 1,
+      totalDelayMs: 500,
+      lastDelayMs: 500
+    });
+  });
+
+  test('refills no further than its capacity', async () => {
+    const limiter = new TokenBucketRateLimiter({ requests: 3, perMilliseconds: 300 });
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.equal(limiter.getStatus().remaining, 0);
+
+    mock.timers.tick(100);
+    assert.equal(limiter.getStatus().remaining, 1);
+
+    mock.timers.tick(10_000);
+    assert.equal(limiter.getStatus().remaining, 3);
+  });
+
+  test('serves queued requests in order', async () => {
+    const limiter = new TokenBucketRateLimiter({ requests: 1, perMilliseconds: 100 });
+    const order: number[] = [];
+
+    await limiter.acquire();
+    const waiting = [1, 2, 3].map((id) => limiter.acquire().then(() => order.push(id)));
+    for (let i = 0; i < 3; i++) {
+      mock.timers.tick(100);
+      await Promise.resolve();
+    }
+    await Promise.all(waiting);
+
+    assert.deepEqual(order, [1, 2, 3]);
+    assert.equal(limiter.getStatus().delayedRequests, 3);
+  });
+});
+
+describe('getRateLimiter', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('shares one limiter per API token and warns when a later budget differs', () => {
+    const write = mock.method(process.stderr, 'write', () => true);
+
+    const first = getRateLimiter('shared-token', { requests: 5, perMilliseconds: 1000 });
+    const same = getRateLimiter('shared-token', { requests: 5, perMilliseconds: 1000 });
+    assert.equal(write.mock.callCount(), 0);
+
+    const other = getRateLimiter('shared-token', { requests: 50, perMilliseconds: 1000 });
+    assert.equal(same, first);
+    assert.equal(other, first);
+    assert.equal(other.getStatus().limit, 5);
+
+    assert.equal(write.mock.callCount(), 1);
+    const entry = JSON.parse(write.mock.calls[0].arguments[0] as string);
+    assert.equal(entry.level, 'warn');
+    assert.deepEqual(entry.ignored, { requests: 50, perMilliseconds: 1000 });
+    assert.ok(!JSON.stringify(entry).includes('shared-token'));
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Token bucket rate limiter for OITVOIP MCP Server
+ * Keeps NetSapiens API traffic within the configured request budget
+ */
+
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'rate-limiter' });
+
+export interface RateLimitOptions {
+  /** Number of requests allowed per window */
+  requests: number;
+  /** Window length (milliseconds) */
+  perMilliseconds: number;
+}
+
+export interface RateLimitStatus {
+  /** Requests allowed per window */
+  limit: number;
+  /** Window length (milliseconds) */
+  windowMs: number;
+  /** Tokens currently available */
+  remaining: number;
+  /** Requests waiting for a token */
+  queued: number;
+  /** Requests that had to wait for a token since startup */
+  delayedRequests: number;
+  /** Total time spent waiting for tokens since startup (milliseconds) */
+  totalDelayMs: number;
+  /** Wait time of the most recent delayed request (milliseconds) */
+  lastDelayMs: number;
+}
+
+export class TokenBucketRateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly windowMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Array<{ enqueuedAt: number; resolve: (delayMs: number) => void }> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private delayedRequests = 0;
+  private totalDelayMs = 0;
+  private lastDelayMs = 0;
+
+  constructor(options: RateLimitOptions) {
+    if (options.requests <= 0 || options.perMilliseconds <= 0) {
+      throw new Error('Rate limit requests and perMilliseconds must be positive numbers');
+    }
+
+    this.capacity = options.requests;
+    this.windowMs = options.perMilliseconds;
+    this.refillPerMs = options.requests / options.perMilliseconds;
+    this.tokens = options.requests;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token to become available.
+   * Resolves with the number of milliseconds the caller was delayed.
+   */
+  acquire(): Promise<number> {
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve(0);
+    }
+
+    return new Promise((resolve) => {
+      this.queue.push({ enqueuedAt: Date.now(), resolve });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Get current budget usage
+   */
+  getStatus(): RateLimitStatus {
+    this.refill();
+
+    return {
+      limit: this.capacity,
+      windowMs: this.windowMs,
+      remaining: Math.floor(this.tokens),
+      queued: this.queue.length,
+      delayedRequests: this.delayedRequests,
+      totalDelayMs: this.totalDelayMs,
+      lastDelayMs: this.lastDelayMs
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+
+    const waitMs = Math.max(1, Math.ceil((1 - this.tokens) / this.refillPerMs));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, waitMs);
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const next = this.queue.shift()!;
+      const delayMs = Date.now() - next.enqueuedAt;
+
+      this.tokens -= 1;
+      this.delayedRequests += 1;
+      this.totalDelayMs += delayMs;
+      this.lastDelayMs = delayMs;
+      next.resolve(delayMs);
+    }
+
+    this.schedule();
+  }
+}
+
+// Buckets are shared per API token so several clients using the same
+// credentials draw from a single budget
+const limiters = new Map<string, TokenBucketRateLimiter>();
+
+/**
+ * Get the shared rate limiter for an API token. The budget belongs to the token, so a later
+ * caller asking for a different budget is warned and shares the existing one.
+ */
+export function getRateLimiter(key: string, options: RateLimitOptions): TokenBucketRateLimiter {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new TokenBucketRateLimiter(options);
+    limiters.set(key, limiter);
+    return limiter;
+  }
+
+  const { limit, windowMs } = limiter.getStatus();
+  if (limit !== options.requests || windowMs !== options.perMilliseconds) {
+    log.warn('Ignoring rateLimit for a profile that shares its API token with another; the first profile\'s budget applies', {
+      requests: limit,
+      perMilliseconds: windowMs,
+      ignored: options
+    });
+  }
+  return limiter;
+}
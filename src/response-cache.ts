@@ -0,0 +1,121 @@
+/**
+ * Response cache for OITVOIP MCP Server
+ * In-memory LRU of rarely changing NetSapiens GET responses, with per-endpoint TTLs
+ */
+
+/** Endpoints whose responses may be cached */
+export type CachedEndpoint = 'domains' | 'domain' | 'callQueues' | 'musicOnHold';
+
+export const DEFAULT_CACHE_TTLS: Record<CachedEndpoint, number> = {
+  domains: 300000,
+  domain: 300000,
+  callQueues: 60000,
+  musicOnHold: 300000
+};
+
+const CACHED_ENDPOINTS: Array<[CachedEndpoint, RegExp]> = [
+  ['domains', /^\/domains$/],
+  ['domain', /^\/domains\/([^/]+)$/],
+  ['callQueues', /^\/domains\/([^/]+)\/callqueues$/],
+  ['musicOnHold', /^\/domains\/([^/]+)\/moh$/]
+];
+
+/**
+ * Which cached endpoint an API path is, and the domain it belongs to; undefined when it is not cached
+ */
+export function matchCachedEndpoint(endpoint: string): { name: CachedEndpoint; domain?: string } | undefined {
+  for (const [name, pattern] of CACHED_ENDPOINTS) {
+    const match = pattern.exec(endpoint);
+    if (match) {
+      return { name, domain: match[1]?.toLowerCase() };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The domain a (write) request path acts on, e.g. acme.example for /domains/acme.example/users/100
+ */
+export function getEndpointDomain(endpoint: string): string | undefined {
+  return /^\/domains\/([^/?]+)/.exec(endpoint)?.[1]?.toLowerCase();
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  /** Domain the response belongs to; undefined for cross-domain lists */
+  domain?: string;
+}
+
+interface PendingLoad {
+  promise: Promise<unknown>;
+  domain?: string;
+}
+
+export class ResponseCache {
+  // Map iteration order is insertion order, so the first key is always the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, PendingLoad>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Return a fresh cached value or load it. Concurrent loads of the same key share one request;
+   * with bypass, the cached value is ignored and replaced.
+   */
+  async get<T>(key: string, ttlMs: number, domain: string | undefined, load: () => Promise<T>, bypass: boolean = false): Promise<T> {
+    const entry = this.entries.get(key);
+    if (!bypass && entry && entry.expiresAt > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.value as T;
+    }
+
+    const pending = this.pending.get(key);
+    if (!bypass && pending) {
+      return pending.promise as Promise<T>;
+    }
+
+    const inFlight: PendingLoad = { promise: load(), domain };
+    this.pending.set(key, inFlight);
+    try {
+      const value = (await inFlight.promise) as T;
+      // An invalidation while the request was in flight drops it from pending; don't cache stale data
+      if (this.pending.get(key) === inFlight) {
+        this.set(key, { value, expiresAt: Date.now() + ttlMs, domain });
+      }
+      return value;
+    } finally {
+      if (this.pending.get(key) === inFlight) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop everything cached for a domain, plus cross-domain lists that may include it.
+   * Without a domain, only cross-domain lists are dropped.
+   */
+  invalidate(domain?: string): void {
+    const key = domain?.toLowerCase();
+    const affected = (item: { domain?: string }) => item.domain === undefined || item.domain === key;
+    for (const [cacheKey, entry] of this.entries) {
+      if (affected(entry)) {
+        this.entries.delete(cacheKey);
+      }
+    }
+    for (const [cacheKey, pending] of this.pending) {
+      if (affected(pending)) {
+        this.pending.delete(cacheKey);
+      }
+    }
+  }
+
+  private set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, mock, test } from 'node:test';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, isRetryableRequest, parseRetryAfter } from './retry.js';
+
+const axiosError = (config: Partial<InternalAxiosRequestConfig>, status?: number, code?: string): AxiosError => {
+  const requestConfig = { headers: new AxiosHeaders(), ...config } as InternalAxiosRequestConfig;
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', headers: {}, config: requestConfig, data: {} };
+  return new AxiosError('Request failed', code, requestConfig, {}, response);
+};
+
+describe('retry policy', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('retries reads on 429, 5xx and network errors only', () => {
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, 429)), true);
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, 502)), true);
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, undefined, AxiosError.ECONNABORTED)), true);
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, 404)), false);
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, 401)), false);
+    assert.equal(isRetryableRequest(axiosError({ method: 'get' }, undefined, AxiosError.ERR_CANCELED)), false);
+  });
+
+  test('retries writes only when they are marked retry-safe', () => {
+    assert.equal(isRetryableRequest(axiosError({ method: 'post' }, 503)), false);
+    assert.equal(isRetryableRequest(axiosError({ method: 'delete' }, undefined, AxiosError.ECONNABORTED)), false);
+    assert.equal(isRetryableRequest(axiosError({ method: 'post', retrySafe: true }, 503)), true);
+  });
+
+  test('parses Retry-After as seconds or an HTTP date', () => {
+    mock.method(Date, 'now', () => Date.parse('2024-05-01T12:00:00Z'));
+
+    assert.equal(parseRetryAfter('120'), 120000);
+    assert.equal(parseRetryAfter(2), 2000);
+    assert.equal(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT'), 5000);
+    assert.equal(parseRetryAfter('Wed, 01 May 2024 11:00:00 GMT'), 0);
+    assert.equal(parseRetryAfter('soon'), null);
+    assert.equal(parseRetryAfter(undefined), null);
+  });
+
+  test('waits for Retry-After, but gives up when it exceeds the maximum delay', () => {
+    assert.equal(getRetryDelay(0, DEFAULT_RETRY_OPTIONS, '3'), 3000);
+    assert.equal(getRetryDelay(0, DEFAULT_RETRY_OPTIONS, '120'), null);
+  });
+
+  test('backs off exponentially with full jitter up to the maximum delay', () => {
+    mock.method(Math, 'random', () => 0.999);
+
+    assert.equal(getRetryDelay(0, DEFAULT_RETRY_OPTIONS), 499);
+    assert.equal(getRetryDelay(2, DEFAULT_RETRY_OPTIONS), 1998);
+    assert.equal(getRetryDelay(10, DEFAULT_RETRY_OPTIONS), 9990);
+
+    mock.method(Math, 'random', () => 0);
+    assert.equal(getRetryDelay(3, DEFAULT_RETRY_OPTIONS), 0);
+  });
+});
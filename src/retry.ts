@@ -0,0 +1,97 @@
+/**
+ * Retry policy for OITVOIP MCP Server
+ * Exponential backoff with jitter for transient NetSapiens API failures
+ */
+
+import { AxiosError } from 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Allow retries for a non-idempotent request */
+    retrySafe?: boolean;
+    /** Number of retries already performed for this request */
+    retryCount?: number;
+  }
+}
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff (milliseconds) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, including Retry-After (milliseconds) */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Whether a failed request may be retried at all.
+ * Only idempotent methods are retried unless the request is marked retry-safe: a write that
+ * timed out may still have been applied, and sending a create again would create a duplicate.
+ */
+export function isRetryableRequest(error: AxiosError): boolean {
+  const config = error.config;
+  if (!config) {
+    return false;
+  }
+
+  const method = (config.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.includes(method) && !config.retrySafe) {
+    return false;
+  }
+
+  // Network errors and timeouts have no response
+  if (!error.response) {
+    return error.code !== AxiosError.ERR_CANCELED;
+  }
+
+  const status = error.response.status;
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Compute the delay before the given retry (0-based), or null to give up.
+ * Uses full jitter, and honors Retry-After when the server sends one.
+ */
+export function getRetryDelay(attempt: number, options: RetryOptions, retryAfter?: unknown): number | null {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  if (retryAfterMs !== null) {
+    // Waiting longer than we are willing to would only hold up the tool call
+    return retryAfterMs <= options.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
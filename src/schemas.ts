@@ -0,0 +1,391 @@
+/**
+ * Runtime response models for OITVOIP MCP Server
+ * zod schemas mirroring the NetSapiens types; unknown fields pass through untouched
+ */
+
+import { z } from 'zod';
+import {
+  NetSapiensUser,
+  NetSapiensDomain,
+  NetSapiensCDR,
+  NetSapiensDevice,
+  NetSapiensDeviceModel,
+  NetSapiensPhoneNumber,
+  NetSapiensPhone,
+  NetSapiensCallQueue,
+  NetSapiensAgent,
+  NetSapiensAutoAttendant,
+  NetSapiensConference,
+  NetSapiensAnswerRule,
+  NetSapiensTimeframe,
+  NetSapiensGreeting,
+  NetSapiensVoicemail,
+  NetSapiensMusicOnHold,
+  NetSapiensBilling,
+  NetSapiensAgentStatistics,
+  NetSapiensSchemaWarning
+} from './types/config.js';
+import { logger } from './logger.js';
+
+export type EntitySchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// NetSapiens returns many numbers and flags as strings ("42", "yes")
+const numeric = z.union([
+  z.number(),
+  z.string().regex(/^-?\d+(\.\d+)?$/).transform(Number)
+]);
+
+const flag = z.union([
+  z.boolean(),
+  z.enum(['yes', 'no', 'true', 'false', '1', '0']).transform((value) => ['yes', 'true', '1'].includes(value))
+]);
+
+const optionalString = z.string().optional();
+
+// Lists may also arrive comma-separated ("100,15551234567")
+const stringList = z.union([
+  z.array(z.string()),
+  z.string().transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean))
+]);
+
+export const userSchema: EntitySchema<NetSapiensUser> = z
+  .object({
+    user: z.string(),
+    domain: z.string(),
+    first_name: optionalString,
+    last_name: optionalString,
+    email: optionalString,
+    phone: optionalString,
+    status: optionalString,
+    subscriber_id: optionalString,
+    caller_id: optionalString,
+    extension: optionalString,
+    forward: optionalString,
+    voicemail: flag.optional(),
+    timezone: optionalString
+  })
+  .passthrough();
+
+export const domainSchema: EntitySchema<NetSapiensDomain> = z
+  .object({
+    domain: z.string(),
+    description: optionalString,
+    customer: optionalString,
+    status: optionalString,
+    subscription: optionalString,
+    territory: optionalString,
+    timezone: optionalString
+  })
+  .passthrough();
+
+export const cdrSchema: EntitySchema<NetSapiensCDR> = z
+  .object({
+    call_id: optionalString,
+    caller: optionalString,
+    callee: optionalString,
+    start_time: optionalString,
+    end_time: optionalString,
+    duration: numeric.optional(),
+    disposition: optionalString,
+    direction: optionalString,
+    realm: optionalString,
+    customer: optionalString
+  })
+  .passthrough();
+
+export const deviceSchema: EntitySchema<NetSapiensDevice> = z
+  .object({
+    object: z.string(),
+    device: optionalString,
+    mac: optionalString,
+    template: optionalString,
+    user: optionalString,
+    domain: optionalString,
+    status: optionalString,
+    model: optionalString,
+    sip_password: optionalString
+  })
+  .passthrough();
+
+export const deviceModelSchema: EntitySchema<NetSapiensDeviceModel> = z
+  .object({
+    model: z.string(),
+    vendor: optionalString,
+    templates: stringList.optional(),
+    line_keys: numeric.optional()
+  })
+  .passthrough();
+
+const lineKeySchema = z
+  .object({
+    key: numeric,
+    type: z.enum(['line', 'blf', 'speed_dial']),
+    device: optionalString,
+    destination: optionalString,
+    label: optionalString
+  })
+  .passthrough();
+
+export const phoneSchema: EntitySchema<NetSapiensPhone> = z
+  .object({
+    object: z.string(),
+    mac: z.string(),
+    domain: optionalString,
+    model: optionalString,
+    template: optionalString,
+    line_keys: z.array(lineKeySchema).optional(),
+    status: optionalString
+  })
+  .passthrough();
+
+export const phoneNumberSchema: EntitySchema<NetSapiensPhoneNumber> = z
+  .object({
+    phonenumber: z.string(),
+    domain: optionalString,
+    user: optionalString,
+    object: optionalString,
+    description: optionalString,
+    status: optionalString,
+    routing: z.enum(['user', 'callqueue', 'autoattendant', 'conference', 'external']).optional(),
+    destination: optionalString
+  })
+  .passthrough();
+
+export const callQueueSchema: EntitySchema<NetSapiensCallQueue> = z
+  .object({
+    object: z.string(),
+    callqueue: optionalString,
+    domain: z.string(),
+    name: optionalString,
+    description: optionalString,
+    status: optionalString,
+    max_wait_time: numeric.optional(),
+    strategy: z.enum(['ring-all', 'round-robin', 'linear-hunt', 'longest-idle', 'fewest-calls']).optional(),
+    music_on_hold: optionalString,
+    overflow_destination: optionalString,
+    wrap_up_time: numeric.optional()
+  })
+  .passthrough();
+
+export const agentSchema: EntitySchema<NetSapiensAgent> = z
+  .object({
+    object: z.string(),
+    agent: optionalString,
+    domain: optionalString,
+    user: optionalString,
+    status: optionalString,
+    status_reason: optionalString,
+    skills: z.array(z.string()).optional(),
+    login_status: optionalString,
+    priority: numeric.optional(),
+    wrap_up_time: numeric.optional(),
+    request_confirmation: flag.optional(),
+    auto_answer: flag.optional()
+  })
+  .passthrough();
+
+const menuActionObject = z
+  .object({
+    type: z.enum(['user', 'callqueue', 'autoattendant', 'conference', 'voicemail', 'external', 'repeat', 'directory', 'hangup']),
+    destination: optionalString
+  })
+  .passthrough();
+
+// Older menus store actions as "type:destination" strings, e.g. "queue:8001"
+const menuAction = z.union([
+  menuActionObject,
+  z
+    .string()
+    .transform((value) => {
+      const [type, ...destination] = value.split(':');
+      return { type: type === 'queue' ? 'callqueue' : type, destination: destination.join(':') || undefined };
+    })
+    .pipe(menuActionObject)
+]);
+
+const menuShape = {
+  prompt: optionalString,
+  timeout: numeric.optional(),
+  options: z.record(menuAction).optional(),
+  timeout_action: menuAction.optional(),
+  invalid_action: menuAction.optional()
+};
+
+export const autoAttendantSchema: EntitySchema<NetSapiensAutoAttendant> = z
+  .object({
+    object: z.string(),
+    attendant: optionalString,
+    domain: z.string(),
+    name: optionalString,
+    ...menuShape,
+    business_hours_timeframe: optionalString,
+    after_hours: z.object(menuShape).passthrough().optional()
+  })
+  .passthrough();
+
+export const conferenceSchema: EntitySchema<NetSapiensConference> = z
+  .object({
+    object: z.string(),
+    conference: z.string(),
+    domain: optionalString,
+    name: optionalString
+  })
+  .passthrough();
+
+export const answerRuleSchema: EntitySchema<NetSapiensAnswerRule> = z
+  .object({
+    object: z.string(),
+    timeframe: z.string(),
+    user: optionalString,
+    domain: optionalString,
+    order: numeric.optional(),
+    enabled: flag.optional(),
+    forward: optionalString,
+    forward_busy: optionalString,
+    forward_no_answer: optionalString,
+    no_answer_timeout: numeric.optional(),
+    forward_offline: optionalString,
+    simultaneous_ring: stringList.optional(),
+    simultaneous_ring_delay: numeric.optional(),
+    do_not_disturb: flag.optional(),
+    call_screening: flag.optional(),
+    voicemail: flag.optional(),
+    status: optionalString
+  })
+  .passthrough();
+
+const weekday = z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+
+export const timeframeSchema: EntitySchema<NetSapiensTimeframe> = z
+  .object({
+    object: z.string(),
+    timeframe: z.string(),
+    domain: optionalString,
+    user: optionalString,
+    type: z.enum(['always', 'days_of_week', 'specific_dates', 'holidays']).optional(),
+    days_of_week: z
+      .array(z.object({ days: z.array(weekday), start_time: optionalString, end_time: optionalString }).passthrough())
+      .optional(),
+    dates: z
+      .array(
+        z
+          .object({
+            date: z.string(),
+            end_date: optionalString,
+            start_time: optionalString,
+            end_time: optionalString,
+            description: optionalString
+          })
+          .passthrough()
+      )
+      .optional()
+  })
+  .passthrough();
+
+export const greetingSchema: EntitySchema<NetSapiensGreeting> = z
+  .object({
+    object: z.string(),
+    index: numeric,
+    user: optionalString,
+    domain: optionalString,
+    type: optionalString,
+    filename: optionalString,
+    duration: numeric.optional()
+  })
+  .passthrough();
+
+export const voicemailSchema: EntitySchema<NetSapiensVoicemail> = z
+  .object({
+    object: z.string(),
+    user: optionalString,
+    domain: optionalString,
+    caller: optionalString,
+    timestamp: optionalString,
+    duration: numeric.optional(),
+    status: optionalString
+  })
+  .passthrough();
+
+export const musicOnHoldSchema: EntitySchema<NetSapiensMusicOnHold> = z
+  .object({
+    object: z.string(),
+    index: numeric,
+    domain: optionalString,
+    filename: optionalString,
+    description: optionalString,
+    duration: numeric.optional()
+  })
+  .passthrough();
+
+export const billingSchema: EntitySchema<NetSapiensBilling> = z
+  .object({
+    domain: z.string(),
+    period: optionalString,
+    charges: numeric.optional(),
+    usage: z.record(z.unknown()).optional(),
+    details: z.record(z.unknown()).optional()
+  })
+  .passthrough();
+
+export const agentStatisticsSchema: EntitySchema<NetSapiensAgentStatistics> = z
+  .object({
+    agent: optionalString,
+    domain: optionalString,
+    calls_handled: numeric.optional(),
+    calls_missed: numeric.optional(),
+    talk_time: numeric.optional(),
+    average_handle_time: numeric.optional(),
+    status: optionalString
+  })
+  .passthrough();
+
+function toWarnings(entity: string, error: z.ZodError, index?: number): NetSapiensSchemaWarning[] {
+  return error.issues.map((issue) => ({
+    entity,
+    index,
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+/**
+ * Validate one entity. Data that doesn't match the schema is returned unchanged
+ * and the mismatch is reported as warnings rather than failing the call.
+ */
+export function validateEntity<T>(schema: EntitySchema<T>, entity: string, raw: unknown): { data: T; warnings?: NetSapiensSchemaWarning[] } {
+  const result = schema.safeParse(raw);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const warnings = toWarnings(entity, result.error);
+  logger.warn('NetSapiens schema drift', { warnings });
+  return { data: raw as T, warnings };
+}
+
+// List endpoints answer an empty result with no body, a single result as a bare object
+export const toList = (body: unknown): unknown[] =>
+  body === null || body === undefined || body === '' ? [] : Array.isArray(body) ? body : [body];
+
+/**
+ * Validate a list response, reading an empty body as no results and wrapping single objects in an array
+ */
+export function validateList<T>(schema: EntitySchema<T>, entity: string, raw: unknown): { data: T[]; warnings?: NetSapiensSchemaWarning[] } {
+  const items = toList(raw);
+  const warnings: NetSapiensSchemaWarning[] = [];
+
+  const data = items.map((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      return result.data;
+    }
+    warnings.push(...toWarnings(entity, result.error, index));
+    return item as T;
+  });
+
+  if (warnings.length === 0) {
+    return { data };
+  }
+  logger.warn('NetSapiens schema drift', { warnings });
+  return { data, warnings };
+}
@@ -0,0 +1,509 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog } from './audit.js';
+import { ACME, GLOBEX } from './testing/fixtures.js';
+import { TestHarness } from './testing/harness.js';
+
+const assertMcpError = (code: ErrorCode) => (error: unknown) => {
+  assert.ok(error instanceof McpError, `expected McpError, got ${error}`);
+  assert.equal(error.code, code);
+  return true;
+};
+
+describe('OITVOIPMCPServer', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.start();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  describe('tool listing', () => {
+    test('lists every tool with a JSON Schema generated from its definition', async () => {
+      const tools = await harness.listTools();
+      const searchUsers = tools.find((tool) => tool.name === 'search_users');
+
+      assert.equal(tools.length, 63);
+      assert.ok(searchUsers);
+      assert.deepEqual(searchUsers.inputSchema.required, ['query']);
+      assert.ok('profile' in (searchUsers.inputSchema.properties as object));
+    });
+
+    test('only write tools advertise the dryRun argument', async () => {
+      const tools = await harness.listTools();
+      const hasDryRun = (name: string) =>
+        'dryRun' in ((tools.find((tool) => tool.name === name)?.inputSchema.properties as object) ?? {});
+
+      assert.equal(hasDryRun('login_agent'), true);
+      assert.equal(hasDryRun('get_agents'), false);
+    });
+
+    test('tools that do not use a profile do not advertise the profile argument', async () => {
+      const listProfiles = (await harness.listTools()).find((tool) => tool.name === 'list_profiles');
+
+      assert.ok(listProfiles);
+      assert.ok(!('profile' in ((listProfiles.inputSchema.properties as object) ?? {})));
+    });
+  });
+
+  describe('argument and profile errors', () => {
+    test('rejects unknown tools with MethodNotFound', async () => {
+      await assert.rejects(harness.callTool('no_such_tool'), assertMcpError(ErrorCode.MethodNotFound));
+    });
+
+    test('rejects missing required arguments with InvalidParams', async () => {
+      await assert.rejects(harness.callTool('get_user', { domain: ACME }), assertMcpError(ErrorCode.InvalidParams));
+    });
+
+    test('rejects a CDR user filter without a domain', async () => {
+      await assert.rejects(harness.callTool('get_cdr_records', { user: '100' }), assertMcpError(ErrorCode.InvalidParams));
+    });
+
+    test('rejects unknown profiles', async () => {
+      await assert.rejects(
+        harness.callTool('get_domains', { profile: 'missing' }),
+        assertMcpError(ErrorCode.InvalidParams)
+      );
+    });
+
+    test('rejects malformed page tokens', async () => {
+      await assert.rejects(
+        harness.callTool('get_domains', { pageToken: 'not-a-token' }),
+        assertMcpError(ErrorCode.InvalidParams)
+      );
+    });
+  });
+
+  describe('NetSapiens errors', () => {
+    test('returns not_found tool errors for missing entities', async () => {
+      const { isError, body } = await harness.callTool('get_user', { userId: '999', domain: ACME });
+
+      assert.equal(isError, true);
+      assert.equal(body.success, false);
+      assert.equal(body.error.type, 'not_found');
+      assert.equal(body.error.status, 404);
+    });
+
+    test('maps NetSapiens 400 responses to InvalidParams', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}`, { status: 400, body: { message: 'Invalid domain' } });
+
+      await assert.rejects(harness.callTool('get_domain', { domain: ACME, bypassCache: true }), assertMcpError(ErrorCode.InvalidParams));
+    });
+
+    test('retries transient failures of read requests', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}`, { status: 503, body: { message: 'Unavailable' } });
+      const before = harness.mock.requests.length;
+
+      const { isError, body } = await harness.callTool('get_domain', { domain: ACME, bypassCache: true });
+
+      assert.equal(isError, false);
+      assert.equal(body.data.domain, ACME);
+      assert.equal(harness.mock.requests.length - before, 2);
+    });
+
+    test('gives up after the configured retries', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}`, { status: 502, body: { message: 'Bad gateway' } }, 3);
+
+      const { isError, body } = await harness.callTool('get_domain', { domain: ACME, bypassCache: true });
+
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'upstream');
+      assert.equal(body.error.retryable, true);
+    });
+
+    test('does not retry non-idempotent requests', async () => {
+      const path = `/domains/${ACME}/callqueues/8001/agents/100/login`;
+      harness.mock.failNext('POST', path, { status: 503, body: { message: 'Unavailable' } });
+      const before = harness.mock.requests.length;
+
+      const { isError, body } = await harness.callTool('login_agent', { domain: ACME, queueId: '8001', agentId: '100' });
+
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'upstream');
+      assert.equal(harness.mock.requests.length - before, 1);
+    });
+
+    test('reports rate limiting with the Retry-After delay', async () => {
+      harness.mock.failNext('GET', '/domains', { status: 429, headers: { 'Retry-After': '120' }, body: { message: 'Slow down' } });
+
+      const { isError, body } = await harness.callTool('get_domains', { bypassCache: true });
+
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'rate_limited');
+      assert.equal(body.error.retryAfterMs, 120000);
+    });
+
+    test('returns unauthorized errors when the token is rejected', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}/billing`, { status: 401, body: { message: 'Invalid or expired token' } });
+
+      const { isError, body } = await harness.callTool('get_billing', { domain: ACME });
+
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'unauthorized');
+    });
+  });
+
+  describe('response validation', () => {
+    test('returns drifted records unchanged with warnings', async () => {
+      const drifted = await TestHarness.start({
+        mock: { data: { domains: [{ description: 'Missing its domain field' }] } }
+      });
+
+      try {
+        const { isError, body } = await drifted.callTool('get_domains');
+
+        assert.equal(isError, false);
+        assert.deepEqual(body.data, [{ description: 'Missing its domain field' }]);
+        assert.equal(body.warnings[0].entity, 'domain');
+        assert.equal(body.warnings[0].path, 'domain');
+      } finally {
+        await drifted.close();
+      }
+    });
+
+    test('reads an empty or null list body as no results', async () => {
+      harness.mock.failNext('GET', '/domains', { status: 200 });
+      harness.mock.failNext('GET', '/domains', { status: 200, body: null });
+
+      const empty = await harness.callTool('get_domains');
+      const nulled = await harness.callTool('get_domains', { fetchAll: true });
+
+      assert.deepEqual(empty.body.data, []);
+      assert.deepEqual(nulled.body.data, []);
+      assert.equal(empty.body.warnings, undefined);
+      assert.equal(nulled.body.pagination.hasMore, false);
+    });
+
+    test('reads an empty or null body on a non-paginated list as no results', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}/users/100/greetings`, { status: 200, body: '' });
+      harness.mock.failNext('GET', `/domains/${ACME}/moh`, { status: 200, body: null });
+
+      const greetings = await harness.callTool('get_user_greetings', { userId: '100', domain: ACME });
+      const musicOnHold = await harness.callTool('get_music_on_hold', { domain: ACME });
+
+      assert.deepEqual(greetings.body.data, []);
+      assert.deepEqual(musicOnHold.body.data, []);
+      assert.equal(greetings.body.warnings, undefined);
+      assert.equal(musicOnHold.body.warnings, undefined);
+    });
+  });
+
+  describe('response cache', () => {
+    const countRequests = (path: string) => harness.mock.requests.filter((request) => request.path === path).length;
+
+    test('serves repeated reads from the cache unless bypassCache is set', async () => {
+      await harness.callTool('get_domain', { domain: GLOBEX });
+      await harness.callTool('get_domain', { domain: GLOBEX });
+      assert.equal(countRequests(`/domains/${GLOBEX}`), 1);
+
+      const { body } = await harness.callTool('get_domain', { domain: GLOBEX, bypassCache: true });
+      assert.equal(body.data.domain, GLOBEX);
+      assert.equal(countRequests(`/domains/${GLOBEX}`), 2);
+    });
+
+    test('coalesces concurrent identical requests', async () => {
+      const results = await Promise.all([
+        harness.callTool('get_music_on_hold', { domain: ACME }),
+        harness.callTool('get_music_on_hold', { domain: ACME }),
+        harness.callTool('get_music_on_hold', { domain: ACME })
+      ]);
+
+      assert.ok(results.every(({ body }) => body.data[0].filename === 'jazz.wav'));
+      assert.equal(countRequests(`/domains/${ACME}/moh`), 1);
+    });
+
+    test('a write to a domain invalidates its cached responses', async () => {
+      await harness.callTool('get_call_queues', { domain: ACME });
+      await harness.callTool('get_call_queues', { domain: GLOBEX });
+      await harness.callTool('login_agent', { domain: ACME, queueId: '8001', agentId: '101' });
+      await harness.callTool('get_call_queues', { domain: ACME });
+      await harness.callTool('get_call_queues', { domain: GLOBEX });
+
+      assert.equal(countRequests(`/domains/${ACME}/callqueues`), 2);
+      assert.equal(countRequests(`/domains/${GLOBEX}/callqueues`), 1);
+    });
+
+    test('dry runs do not invalidate the cache', async () => {
+      await harness.callTool('get_call_queues', { domain: ACME });
+      const before = countRequests(`/domains/${ACME}/callqueues`);
+      await harness.callTool('logout_agent', { domain: ACME, queueId: '8001', agentId: '101', dryRun: true });
+      await harness.callTool('get_call_queues', { domain: ACME });
+
+      assert.equal(countRequests(`/domains/${ACME}/callqueues`), before);
+    });
+  });
+
+  describe('profiles', () => {
+    test('routes calls to the selected profile', async () => {
+      const lab = await TestHarness.start();
+      const multi = await TestHarness.start({
+        config: () => ({
+          profiles: {
+            lab: { apiUrl: lab.mock.apiUrl, apiToken: 'test-token' }
+          }
+        })
+      });
+
+      try {
+        const profiles = await multi.callTool('list_profiles');
+        assert.deepEqual(
+          profiles.body.data.map((profile: { name: string }) => profile.name),
+          ['default', 'lab']
+        );
+
+        const labBefore = lab.mock.requests.length;
+        await multi.callTool('get_domain', { domain: ACME, profile: 'lab' });
+        assert.equal(lab.mock.requests.length - labBefore, 1);
+        assert.equal(multi.mock.requests.length, 0);
+      } finally {
+        await multi.close();
+        await lab.close();
+      }
+    });
+  });
+
+  describe('policy', () => {
+    test('read-only mode hides and rejects write tools', async () => {
+      const readOnly = await TestHarness.start({ config: () => ({ policy: { readOnly: true } }) });
+
+      try {
+        const names = (await readOnly.listTools()).map((tool) => tool.name);
+        assert.ok(!names.includes('login_agent'));
+        assert.ok(names.includes('get_agents'));
+
+        const { isError, body } = await readOnly.callTool('login_agent', { domain: ACME, queueId: '8001', agentId: '100' });
+        assert.equal(isError, true);
+        assert.equal(body.error.type, 'policy_denied');
+        assert.equal(body.error.reason, 'category');
+        assert.equal(readOnly.mock.requests.length, 0);
+      } finally {
+        await readOnly.close();
+      }
+    });
+
+    test('tool allow lists expose only the listed tools', async () => {
+      const allowed = await TestHarness.start({
+        config: () => ({ policy: { tools: { allow: ['get_user', 'list_profiles'] } } })
+      });
+
+      try {
+        assert.deepEqual((await allowed.listTools()).map((tool) => tool.name).sort(), ['get_user', 'list_profiles']);
+
+        const { isError, body } = await allowed.callTool('get_domains');
+        assert.equal(isError, true);
+        assert.equal(body.error.reason, 'tool');
+      } finally {
+        await allowed.close();
+      }
+    });
+
+    test('domain rules reject other domains before calling NetSapiens', async () => {
+      const scoped = await TestHarness.start({ config: () => ({ policy: { domains: { allow: ['acme.*', 'initech.example'] } } }) });
+
+      try {
+        assert.equal((await scoped.callTool('get_user', { userId: '100', domain: ACME })).isError, false);
+
+        const denied = await scoped.callTool('get_user', { userId: '200', domain: GLOBEX });
+        assert.equal(denied.isError, true);
+        assert.equal(denied.body.error.reason, 'domain');
+        assert.equal(scoped.mock.requests.length, 1);
+      } finally {
+        await scoped.close();
+      }
+    });
+
+    test('deny lists catch spellings of a denied domain', async () => {
+      const scoped = await TestHarness.start({ config: () => ({ policy: { domains: { deny: [GLOBEX] } } }) });
+
+      try {
+        for (const domain of ['globex.example.', 'GLOBEX.example', ' globex.example']) {
+          const { isError, body } = await scoped.callTool('get_user', { userId: '200', domain });
+          assert.equal(isError, true, domain);
+          assert.equal(body.error.reason, 'domain');
+        }
+        for (const domain of ['globex.example/', '%67lobex.example', 'acme.example/../globex.example', 'globex.example?x=1']) {
+          await assert.rejects(scoped.callTool('get_user', { userId: '200', domain }), /domain: must be a domain name/);
+        }
+        assert.equal(scoped.mock.requests.length, 0);
+
+        // Other IDs are encoded as one path segment, so they can't climb out of the allowed domain
+        const climbing = await scoped.callTool('get_user', { userId: '../../globex.example/users/200', domain: ACME });
+        assert.equal(climbing.body.error.type, 'not_found');
+        assert.equal(scoped.mock.requests[0].path, `/domains/${ACME}/users/../../globex.example/users/200`);
+      } finally {
+        await scoped.close();
+      }
+    });
+
+    test('domain rules filter cross-domain list results', async () => {
+      const scoped = await TestHarness.start({ config: () => ({ policy: { domains: { allow: ['acme.*', 'initech.example'] } } }) });
+
+      try {
+        const domains = await scoped.callTool('get_domains');
+        assert.deepEqual(domains.body.data.map((domain: { domain: string }) => domain.domain), [ACME]);
+        assert.equal(domains.body.pagination.returned, 1);
+
+        const users = await scoped.callTool('search_users', { query: 'a' });
+        assert.deepEqual(users.body.data.map((user: { domain: string }) => user.domain), [ACME, ACME, ACME]);
+
+        const cdrs = await scoped.callTool('get_cdr_records');
+        assert.ok(cdrs.body.data.every((cdr: { domain: string }) => cdr.domain === ACME));
+      } finally {
+        await scoped.close();
+      }
+    });
+
+    test('a single allowed domain becomes the default domain argument', async () => {
+      const pinned = await TestHarness.start({ config: () => ({ policy: { domains: { allow: [ACME] } } }) });
+
+      try {
+        const getUser = (await pinned.listTools()).find((tool) => tool.name === 'get_user');
+        assert.deepEqual(getUser?.inputSchema.required, ['userId']);
+
+        const { isError, body } = await pinned.callTool('get_user', { userId: '100' });
+        assert.equal(isError, false);
+        assert.equal(body.data.domain, ACME);
+
+        await pinned.callTool('search_users', { query: 'a' });
+        assert.equal(pinned.mock.requests.at(-1)?.path, `/domains/${ACME}/users`);
+
+        const auditLog = (await pinned.listTools()).find((tool) => tool.name === 'get_audit_log');
+        assert.equal((auditLog?.inputSchema.properties?.domain as { default?: string }).default, undefined);
+      } finally {
+        await pinned.close();
+      }
+    });
+
+    test('revealSipCredentials lets device tools return SIP passwords on request', async () => {
+      const revealing = await TestHarness.start({ config: () => ({ policy: { revealSipCredentials: true } }) });
+
+      try {
+        const device = await revealing.callTool('get_device', { userId: '100', domain: ACME, device: 'sip:100a@acme.example', includeCredentials: true });
+        assert.equal(device.body.data.sip_password, 'Vx7pQ2mLr9sTk4wZ');
+
+        const preview = await revealing.callTool('update_device', {
+          userId: '100',
+          domain: ACME,
+          device: 'sip:100a@acme.example',
+          resetSipPassword: true,
+          includeCredentials: true,
+          dryRun: true
+        });
+        assert.equal(preview.body.data.requests[0].body.sip_password, '[REDACTED]');
+        assert.deepEqual(preview.body.data.changes, []);
+
+        const remodelled = await revealing.callTool('update_device', {
+          userId: '100',
+          domain: ACME,
+          device: 'sip:100a@acme.example',
+          model: 'Yealink T54W',
+          includeCredentials: true
+        });
+        assert.equal(remodelled.body.data.sipCredentials, undefined);
+
+        const reset = await revealing.callTool('update_device', {
+          userId: '100',
+          domain: ACME,
+          device: 'sip:100a@acme.example',
+          resetSipPassword: true,
+          includeCredentials: true
+        });
+        assert.notEqual(reset.body.data.sipCredentials.password, 'Vx7pQ2mLr9sTk4wZ');
+        assert.equal(reset.body.data.sipCredentials.password, revealing.mock.data.devices.find((d) => d.device === 'sip:100a@acme.example')?.sip_password);
+
+        const created = await revealing.callTool('create_device', { userId: '101', domain: ACME, device: 'sip:101b@acme.example', includeCredentials: true });
+        assert.equal(created.body.data.sipCredentials.password, revealing.mock.data.devices.at(-1)?.sip_password);
+        assert.equal(created.body.data.device.sip_password, undefined);
+      } finally {
+        await revealing.close();
+      }
+    });
+
+    test('refuses to start when the policy names unknown tools', async () => {
+      await assert.rejects(
+        TestHarness.start({ config: () => ({ policy: { tools: { deny: ['delete_everything'] } } }) }),
+        /unknown tools: delete_everything/
+      );
+    });
+  });
+
+  describe('audit log', () => {
+    test('records write tool calls with their target and upstream requests', async () => {
+      await harness.callTool('login_agent', { domain: ACME, queueId: '8002', agentId: '101' });
+      await harness.callTool('get_agents', { domain: ACME });
+
+      const { body } = await harness.callTool('get_audit_log', { tool: 'login_agent', limit: 1 });
+      const [entry] = body.data;
+
+      assert.equal(body.data.length, 1);
+      assert.equal(entry.outcome, 'success');
+      assert.equal(entry.domain, ACME);
+      assert.equal(entry.target, 'callqueue 8002 agent 101');
+      assert.equal(entry.profile, 'default');
+      assert.equal(entry.actor.client, 'oitvoip-test-client/1.0.0');
+      assert.deepEqual(entry.upstream, [
+        { method: 'POST', endpoint: `/domains/${ACME}/callqueues/8002/agents/101/login`, status: 200 }
+      ]);
+      assert.ok(entry.correlationId);
+
+      const reads = await harness.callTool('get_audit_log', { tool: 'get_agents' });
+      assert.deepEqual(reads.body.data, []);
+    });
+
+    test('records arguments in full apart from credentials', async () => {
+      await harness.callTool('reassign_phone_number', { domain: ACME, phoneNumber: '15551000199', routing: 'callqueue', destination: '8001' });
+      await harness.callTool('create_user', { userId: '150', domain: ACME, firstName: 'Dana', lastName: 'Diaz', password: 'hunter2hunter2', voicemailPin: '4321' });
+
+      const { body } = await harness.callTool('get_audit_log', {});
+      const [created, reassigned] = body.data;
+
+      assert.equal(reassigned.target, 'phonenumber 15551000199');
+      assert.equal(reassigned.arguments.phoneNumber, '15551000199');
+      assert.equal(created.arguments.password, '[REDACTED]');
+      assert.equal(created.arguments.voicemailPin, '[REDACTED]');
+      assert.equal(created.arguments.firstName, 'Dana');
+    });
+
+    test('records failed and denied calls', async () => {
+      const scoped = await TestHarness.start({ config: () => ({ policy: { domains: { allow: [ACME] } } }) });
+
+      try {
+        scoped.mock.failNext('POST', `/domains/${ACME}/callqueues/8001/agents/100/logout`, { status: 404, body: { message: 'No such agent' } });
+        await scoped.callTool('logout_agent', { queueId: '8001', agentId: '100' });
+        await scoped.callTool('logout_agent', { domain: GLOBEX, queueId: '8003', agentId: '200' });
+
+        const { body } = await scoped.callTool('get_audit_log', {});
+        assert.deepEqual(body.data.map((entry: { outcome: string }) => entry.outcome), ['error']);
+        assert.equal(body.data[0].error.type, 'not_found');
+        assert.equal(body.data[0].upstream[0].status, 404);
+
+        // The denied call is logged, but against a domain this server may not show
+        const denied = await scoped.callTool('get_audit_log', { outcome: 'denied' });
+        assert.deepEqual(denied.body.data, []);
+        const [logged] = await new AuditLog(scoped.config.audit?.path as string).query({ outcome: 'denied' });
+        assert.equal(logged.domain, GLOBEX);
+        assert.equal(logged.error?.type, 'policy_denied');
+        assert.deepEqual(logged.upstream, []);
+      } finally {
+        await scoped.close();
+      }
+    });
+
+    test('does not record dry runs', async () => {
+      await harness.callTool('logout_agent', { domain: ACME, queueId: '8001', agentId: '100', dryRun: true });
+
+      const { body } = await harness.callTool('get_audit_log', { tool: 'logout_agent' });
+      assert.deepEqual(body.data, []);
+    });
+
+    test('filters by time range', async () => {
+      const { body } = await harness.callTool('get_audit_log', { until: '2000-01-01' });
+
+      assert.deepEqual(body.data, []);
+    });
+  });
+});
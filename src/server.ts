@@ -0,0 +1,289 @@
+/**
+ * MCP server for OITVOIP MCP Server
+ * Wires the NetSapiens clients and tool registry to MCP transports
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AuditActor, AuditEntry, AuditLog, trackUpstreamCalls, UpstreamCall } from './audit.js';
+import { HttpSessionInfo, HttpTransportServer } from './http-transport.js';
+import { redactCredentials } from './dry-run.js';
+import { NetSapiensClient } from './netsapiens-client.js';
+import { DEFAULT_AUDIT_LOG_PATH, DEFAULT_PROFILE } from './config.js';
+import { NetSapiensError, NetSapiensValidationError } from './errors.js';
+import { getCorrelationId, logger, withCorrelationId } from './logger.js';
+import { PolicyError, ToolPolicy } from './policy.js';
+import { allTools, previewTool, ResolvedCall, ToolContext, ToolDefinition, ToolRegistry, toCallToolResult } from './tools/index.js';
+import { MCPServerConfig } from './types/config.js';
+
+export class OITVOIPMCPServer {
+  private servers: Set<Server> = new Set();
+  private httpServer?: HttpTransportServer;
+  private clients: Map<string, NetSapiensClient> = new Map();
+  private defaultProfile: string;
+  private registry: ToolRegistry;
+  private policy: ToolPolicy;
+  private auditLog: AuditLog | null;
+
+  constructor(private readonly config: MCPServerConfig) {
+    const policy = new ToolPolicy(config.policy);
+    this.policy = policy;
+    this.auditLog = config.audit?.enabled === false ? null : new AuditLog(config.audit?.path ?? DEFAULT_AUDIT_LOG_PATH);
+    // Pinning to domains also filters list results, so it applies inside each client
+    const clientOptions = policy.domainsRestricted
+      ? { isDomainAllowed: (domain: string) => policy.isDomainAllowed(domain) }
+      : {};
+
+    // One client per profile, each with its own credentials and rate limit budget
+    if (config.netsapiens) {
+      this.clients.set(DEFAULT_PROFILE, new NetSapiensClient(config.netsapiens, clientOptions));
+    }
+    for (const [name, profile] of Object.entries(config.profiles || {})) {
+      this.clients.set(name, new NetSapiensClient(profile, clientOptions));
+    }
+    this.defaultProfile = config.defaultProfile || DEFAULT_PROFILE;
+    if (!this.clients.has(this.defaultProfile)) {
+      throw new Error(`Default profile "${this.defaultProfile}" is not configured`);
+    }
+    this.registry = new ToolRegistry(this.defaultProfile, policy).register(allTools);
+    const unknownTools = policy.unknownTools(this.registry.names());
+    if (unknownTools.length > 0) {
+      throw new Error(`Policy refers to unknown tools: ${unknownTools.join(', ')}`);
+    }
+  }
+
+  /**
+   * Create an MCP server for one connection; clients and tools are shared between connections
+   */
+  private createServer(session?: HttpSessionInfo): Server {
+    const server = new Server(
+      {
+        name: this.config.name,
+        version: this.config.version,
+      },
+      {
+        capabilities: {
+          tools: {},
+        },
+      }
+    );
+
+    this.setupToolHandlers(server, session);
+    server.onerror = (error) => {
+      logger.error('MCP error', { error });
+    };
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    this.servers.add(server);
+    return server;
+  }
+
+  private setupToolHandlers(server: Server, session?: HttpSessionInfo): void {
+    // List available tools
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.registry.list(),
+      };
+    });
+
+    // Handle tool calls
+    // Every log line written while a tool runs carries the call's correlation ID
+    server.setRequestHandler(CallToolRequestSchema, (request) => withCorrelationId(async () => {
+      const { name, arguments: args } = request.params;
+      const startedAt = Date.now();
+      logger.debug('Tool call started', { tool: name, arguments: args });
+
+      let tool: ToolDefinition | undefined;
+      let resolved: ResolvedCall | undefined;
+      const upstream: UpstreamCall[] = [];
+      // Dry runs change nothing, so only real write calls are audited
+      const audit = (outcome: AuditEntry['outcome'], error?: AuditEntry['error']) =>
+        tool?.category === 'write' && !resolved?.dryRun
+          ? this.recordAudit({ server, session, tool, rawArgs: args, resolved, upstream, outcome, error, startedAt })
+          : Promise.resolve();
+
+      try {
+        tool = this.registry.get(name);
+        resolved = this.registry.resolve(tool, args);
+        const context = this.createToolContext(resolved.profile);
+        const { handler } = tool;
+        const toolArgs = resolved.args;
+        const output = resolved.dryRun
+          ? await previewTool(tool, toolArgs, context)
+          : await trackUpstreamCalls(() => handler(toolArgs, context), upstream);
+        logger.info('Tool call completed', { tool: name, success: output.success ?? true, durationMs: Date.now() - startedAt });
+        await audit(output.success === false ? 'error' : 'success');
+        return toCallToolResult(output);
+      } catch (error) {
+        logger.warn('Tool call failed', { tool: name, durationMs: Date.now() - startedAt, error });
+        await audit(error instanceof PolicyError ? 'denied' : 'error', describeError(error));
+        if (error instanceof McpError) {
+          throw error;
+        }
+        if (error instanceof NetSapiensError) {
+          return this.handleNetSapiensError(error);
+        }
+        if (error instanceof PolicyError) {
+          return this.toErrorResult(error.message, error.toJSON());
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Error executing tool ${name}: ${error}`
+        );
+      }
+    }));
+  }
+
+  /**
+   * Append an audit entry for a write tool call; a failed write is logged but never fails the call
+   */
+  private async recordAudit(call: {
+    server: Server;
+    session?: HttpSessionInfo;
+    tool: ToolDefinition;
+    rawArgs: unknown;
+    resolved?: ResolvedCall;
+    upstream: UpstreamCall[];
+    outcome: AuditEntry['outcome'];
+    error?: AuditEntry['error'];
+    startedAt: number;
+  }): Promise<void> {
+    if (!this.auditLog) {
+      return;
+    }
+
+    const args = call.resolved?.args ?? call.rawArgs ?? {};
+    const clientVersion = call.server.getClientVersion();
+    const actor: AuditActor = {
+      client: clientVersion ? `${clientVersion.name}/${clientVersion.version}` : undefined,
+      apiKey: call.session?.apiKey
+    };
+    const entry: AuditEntry = {
+      time: new Date().toISOString(),
+      correlationId: getCorrelationId(),
+      tool: call.tool.name,
+      profile: call.resolved ? call.resolved.profile ?? this.defaultProfile : undefined,
+      domain: typeof args.domain === 'string' ? args.domain : undefined,
+      target: call.resolved && call.tool.target ? call.tool.target(call.resolved.args) : undefined,
+      // Only credentials are hidden, so arguments can be searched by the same numbers as the target
+      arguments: redactCredentials(args),
+      actor,
+      outcome: call.outcome,
+      upstream: call.upstream,
+      error: call.error,
+      durationMs: Date.now() - call.startedAt
+    };
+
+    try {
+      await this.auditLog.append(entry);
+    } catch (error) {
+      logger.error('Failed to write audit log entry', { path: this.auditLog.path, tool: entry.tool, error });
+    }
+  }
+
+  /**
+   * Invalid arguments become InvalidParams protocol errors; every other API failure
+   * becomes an isError tool result carrying the error type so agents can react to it
+   */
+  private handleNetSapiensError(error: NetSapiensError) {
+    if (error instanceof NetSapiensValidationError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message, error.toJSON());
+    }
+
+    return this.toErrorResult(error.message, error.toJSON());
+  }
+
+  private toErrorResult(message: string, error: unknown) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            message,
+            error
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private createToolContext(profile: string = this.defaultProfile): ToolContext {
+    const client = this.clients.get(profile);
+    
+    if (!client) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown profile: ${profile}. Available profiles: ${[...this.clients.keys()].join(', ')}`
+      );
+    }
+    return {
+      client,
+      profile,
+      profiles: this.clients,
+      defaultProfile: this.defaultProfile,
+      audit: this.auditLog,
+      isDomainAllowed: (domain) => this.policy.isDomainAllowed(domain),
+      sipCredentialsAllowed: this.policy.sipCredentialsAllowed
+    };
+  }
+
+  /**
+   * Serve MCP over a single transport, e.g. stdio or an in-memory transport in tests
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.createServer().connect(transport);
+  }
+
+  /**
+   * Stop accepting HTTP connections and close every open MCP session
+   */
+  async close(): Promise<void> {
+    await this.httpServer?.close();
+    await Promise.allSettled([...this.servers].map((server) => server.close()));
+  }
+
+  async run(): Promise<void> {
+    const transport = this.config.transport ?? { type: 'stdio' };
+
+    if (transport.type === 'sse') {
+      this.httpServer = new HttpTransportServer(
+        {
+          host: transport.host ?? '127.0.0.1',
+          port: transport.port ?? 3000,
+          apiKeys: transport.apiKeys ?? []
+        },
+        (session) => this.createServer(session)
+      );
+      const port = await this.httpServer.listen();
+      logger.info('OITVOIP MCP Server listening', { url: `http://${transport.host ?? '127.0.0.1'}:${port}/sse` });
+    } else {
+      await this.connect(new StdioServerTransport());
+    }
+
+    logger.info('OITVOIP MCP Server started successfully', { transport: transport.type });
+    for (const [name, client] of this.clients) {
+      logger.debug('NetSapiens profile configured', { profile: name, ...client.describe() });
+    }
+  }
+}
+
+// Error details recorded in the audit log
+function describeError(error: unknown): AuditEntry['error'] {
+  if (error instanceof NetSapiensError || error instanceof PolicyError) {
+    return { type: error.type, message: error.message };
+  }
+  if (error instanceof McpError) {
+    return { type: error.code === ErrorCode.InvalidParams ? 'invalid_params' : 'mcp_error', message: error.message };
+  }
+  return { type: 'internal', message: String(error) };
+}
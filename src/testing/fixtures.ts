@@ -0,0 +1,128 @@
+/**
+ * Fixture data for the mock NetSapiens server
+ * Records use the raw API shapes, including numbers and flags sent as strings
+ */
+
+export type MockRecord = Record<string, any>;
+
+export interface MockNetSapiensData {
+  domains: MockRecord[];
+  users: MockRecord[];
+  devices: MockRecord[];
+  deviceModels: MockRecord[];
+  /** MAC-based provisioning entries */
+  phones: MockRecord[];
+  phoneNumbers: MockRecord[];
+  callQueues: MockRecord[];
+  /** Agents list the queues they belong to in `callqueues` */
+  agents: MockRecord[];
+  /** CDRs carry `domain` and `user` so they can be filtered like the real endpoints */
+  cdrs: MockRecord[];
+  autoAttendants: MockRecord[];
+  conferences: MockRecord[];
+  answerRules: MockRecord[];
+  timeframes: MockRecord[];
+  greetings: MockRecord[];
+  voicemails: MockRecord[];
+  musicOnHold: MockRecord[];
+  billing: MockRecord[];
+  agentStatistics: MockRecord[];
+}
+
+export const ACME = 'acme.example';
+export const GLOBEX = 'globex.example';
+
+/**
+ * Build a fresh copy of the fixtures, so tests can mutate their own data
+ */
+export function createFixtures(): MockNetSapiensData {
+  return {
+    domains: [
+      { domain: ACME, description: 'Acme Corporation', customer: 'acme', status: 'active', territory: 'oit', timezone: 'America/New_York' },
+      { domain: GLOBEX, description: 'Globex Inc', customer: 'globex', status: 'active', territory: 'oit', timezone: 'America/Chicago' }
+    ],
+    users: [
+      { user: '100', domain: ACME, first_name: 'Alice', last_name: 'Anders', email: 'alice@acme.example', status: 'active', extension: '100', caller_id: '5551000100', voicemail: 'yes', timezone: 'America/New_York' },
+      { user: '101', domain: ACME, first_name: 'Bob', last_name: 'Baker', email: 'bob@acme.example', status: 'active', extension: '101', caller_id: '5551000101', voicemail: 'no' },
+      { user: '102', domain: ACME, first_name: 'Carol', last_name: 'Chen', email: 'carol@acme.example', status: 'active', extension: '102', voicemail: 'yes' },
+      { user: '200', domain: GLOBEX, first_name: 'Dan', last_name: 'Diaz', email: 'dan@globex.example', status: 'active', extension: '200', voicemail: 'yes' }
+    ],
+    devices: [
+      { object: 'device', device: 'sip:100a@acme.example', mac: '00:04:f2:aa:bb:01', model: 'Poly VVX 450', template: 'polycom-vvx.cfg', user: '100', domain: ACME, status: 'registered', sip_password: 'Vx7pQ2mLr9sTk4wZ' },
+      { object: 'device', device: 'sip:101a@acme.example', mac: '00:04:f2:aa:bb:02', model: 'Yealink T54W', template: 'yealink-t5x.cfg', user: '101', domain: ACME, status: 'unregistered', sip_password: 'Hn3cYb8dWq6eJf1g' }
+    ],
+    deviceModels: [
+      { model: 'Poly VVX 450', vendor: 'Poly', templates: 'polycom-vvx.cfg', line_keys: '12' },
+      { model: 'Yealink T54W', vendor: 'Yealink', templates: 'yealink-t5x.cfg,yealink-t5x-sidecar.cfg', line_keys: '27' },
+      { model: 'Yealink T31P', vendor: 'Yealink', templates: 'yealink-t3x.cfg', line_keys: '2' }
+    ],
+    phones: [
+      {
+        object: 'phone',
+        mac: '00:04:f2:aa:bb:01',
+        domain: ACME,
+        model: 'Poly VVX 450',
+        template: 'polycom-vvx.cfg',
+        line_keys: [{ key: '1', type: 'line', device: 'sip:100a@acme.example' }, { key: '2', type: 'blf', destination: '101', label: 'Bob' }],
+        status: 'provisioned'
+      }
+    ],
+    phoneNumbers: [
+      { object: 'phonenumber', phonenumber: '15551000100', domain: ACME, user: '100', description: 'Alice DID', status: 'active', routing: 'user', destination: '100' },
+      { object: 'phonenumber', phonenumber: '15551000199', domain: ACME, description: 'Main line', status: 'active', routing: 'autoattendant', destination: '9000' },
+      { object: 'phonenumber', phonenumber: '15552000200', domain: GLOBEX, user: '200', status: 'active', routing: 'user', destination: '200' }
+    ],
+    callQueues: [
+      { object: 'callqueue', callqueue: '8001', domain: ACME, name: 'Sales', description: 'Inbound sales', status: 'active', max_wait_time: '300', strategy: 'round-robin', music_on_hold: 'default' },
+      { object: 'callqueue', callqueue: '8002', domain: ACME, name: 'Support', status: 'active', max_wait_time: '600', strategy: 'ring-all' }
+    ],
+    agents: [
+      { object: 'agent', agent: '100', user: '100', domain: ACME, status: 'available', login_status: 'logged_in', skills: ['sales'], callqueues: ['8001'] },
+      { object: 'agent', agent: '101', user: '101', domain: ACME, status: 'available', login_status: 'logged_out', skills: ['support'], callqueues: ['8001', '8002'] }
+    ],
+    cdrs: [
+      { call_id: 'cdr-1', caller: '15559990001', callee: '100', start_time: '2026-01-05 09:00:00', end_time: '2026-01-05 09:05:00', duration: '300', disposition: 'answered', direction: 'inbound', domain: ACME, user: '100' },
+      { call_id: 'cdr-2', caller: '100', callee: '15559990002', start_time: '2026-01-05 10:00:00', end_time: '2026-01-05 10:01:00', duration: '60', disposition: 'answered', direction: 'outbound', domain: ACME, user: '100' },
+      { call_id: 'cdr-3', caller: '15559990003', callee: '101', start_time: '2026-01-06 11:00:00', end_time: '2026-01-06 11:00:20', duration: '20', disposition: 'no-answer', direction: 'inbound', domain: ACME, user: '101' },
+      { call_id: 'cdr-4', caller: '15559990004', callee: '200', start_time: '2026-01-06 12:00:00', end_time: '2026-01-06 12:03:00', duration: '180', disposition: 'answered', direction: 'inbound', domain: GLOBEX, user: '200' }
+    ],
+    autoAttendants: [
+      { object: 'autoattendant', attendant: '9000', domain: ACME, name: 'Main Menu', prompt: 'main-menu.wav', timeout: '10', options: { '1': 'queue:8001', '2': 'queue:8002', '0': 'user:100' } },
+      { object: 'autoattendant', attendant: '9001', domain: ACME, name: 'Spanish Menu', prompt: 'spanish-menu.wav', timeout: '10', options: { '1': 'queue:8002', '9': 'autoattendant:9000' } }
+    ],
+    conferences: [
+      { object: 'conference', conference: '7000', domain: ACME, name: 'All hands' }
+    ],
+    answerRules: [
+      { object: 'answerrule', timeframe: 'default', user: '100', domain: ACME, order: '1', enabled: 'yes', forward: '', voicemail: 'yes', status: 'active' },
+      { object: 'answerrule', timeframe: 'after-hours', user: '100', domain: ACME, order: '2', enabled: 'yes', forward: '15551000999', voicemail: 'no', status: 'active' }
+    ],
+    timeframes: [
+      {
+        object: 'timeframe',
+        timeframe: 'business-hours',
+        domain: ACME,
+        type: 'days_of_week',
+        days_of_week: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start_time: '09:00', end_time: '17:00' }]
+      },
+      { object: 'timeframe', timeframe: 'holidays', domain: ACME, type: 'holidays', dates: [{ date: '2026-12-25', description: 'Christmas Day' }] },
+      { object: 'timeframe', timeframe: 'after-hours', domain: ACME, user: '100', type: 'days_of_week', days_of_week: [{ days: ['sat', 'sun'] }] }
+    ],
+    greetings: [
+      { object: 'greeting', index: '1', user: '100', domain: ACME, type: 'unavailable', filename: 'greeting-1.wav', duration: '8' }
+    ],
+    voicemails: [
+      { object: 'voicemail', user: '100', domain: ACME, caller: '15559990001', timestamp: '2026-01-05 09:10:00', duration: '25', status: 'new' }
+    ],
+    musicOnHold: [
+      { object: 'moh', index: '1', domain: ACME, filename: 'jazz.wav', description: 'Smooth jazz', duration: '180' }
+    ],
+    billing: [
+      { domain: ACME, period: '2026-01', charges: '129.95', usage: { minutes: 4200, users: 3 }, details: { plan: 'business' } }
+    ],
+    agentStatistics: [
+      { agent: '100', domain: ACME, calls_handled: '42', calls_missed: '3', talk_time: '7200', average_handle_time: '171', status: 'available' },
+      { agent: '101', domain: ACME, calls_handled: '17', calls_missed: '5', talk_time: '3100', average_handle_time: '182', status: 'available' }
+    ]
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * End-to-end test harness for OITVOIP MCP Server
+ * Drives OITVOIPMCPServer over an in-memory MCP transport against the mock NetSapiens server
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { mcpServerConfigSchema } from '../config.js';
+import { logger } from '../logger.js';
+import { OITVOIPMCPServer } from '../server.js';
+import { MCPServerConfig } from '../types/config.js';
+import { MockNetSapiensServer, MockNetSapiensServerOptions } from './mock-netsapiens-server.js';
+
+export interface TestHarnessOptions {
+  mock?: MockNetSapiensServerOptions;
+  /** Raw configuration merged over the defaults; `netsapiens` points at the mock unless replaced */
+  config?: (apiUrl: string) => Record<string, unknown>;
+}
+
+export interface ToolCallResult {
+  isError: boolean;
+  /** Parsed JSON text content */
+  body: any;
+}
+
+export class TestHarness {
+  private constructor(
+    readonly mock: MockNetSapiensServer,
+    readonly server: OITVOIPMCPServer,
+    readonly client: Client,
+    readonly config: MCPServerConfig,
+    private readonly tempDir: string
+  ) {}
+
+  /**
+   * Start a mock NetSapiens server and connect an MCP client to a server using it
+   */
+  static async start(options: TestHarnessOptions = {}): Promise<TestHarness> {
+    const mock = new MockNetSapiensServer(options.mock);
+    const apiUrl = await mock.start();
+    const tempDir = await mkdtemp(join(tmpdir(), 'oitvoip-mcp-test-'));
+
+    try {
+      const config = mcpServerConfigSchema.parse({
+        netsapiens: {
+          apiUrl,
+          apiToken: options.mock?.apiToken ?? 'test-token',
+          // Keep retries fast and the rate limit out of the way so tests don't wait
+          retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 },
+          rateLimit: { requests: 10000, perMilliseconds: 60000 }
+        },
+        logging: { level: process.env.LOG_LEVEL ?? 'error' },
+        audit: { path: join(tempDir, 'audit.jsonl') },
+        ...options.config?.(apiUrl)
+      });
+      logger.configure(config.logging ?? {});
+
+      const server = new OITVOIPMCPServer(config);
+      const client = new Client({ name: 'oitvoip-test-client', version: '1.0.0' }, { capabilities: {} });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      return new TestHarness(mock, server, client, config, tempDir);
+    } catch (error) {
+      await mock.stop();
+      await rm(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  async listTools() {
+    return (await this.client.listTools()).tools;
+  }
+
+  /**
+   * Call a tool and parse its JSON output; protocol errors (McpError) reject
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> {
+    const result = await this.client.callTool({ name, arguments: args });
+    const content = result.content as Array<{ type: string; text?: string }>;
+    return {
+      isError: result.isError === true,
+      body: JSON.parse(content[0]?.text ?? 'null')
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.server.close();
+    await this.mock.stop();
+    await rm(this.tempDir, { recursive: true, force: true });
+  }
+}
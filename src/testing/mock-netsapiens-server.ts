@@ -0,0 +1,557 @@
+/**
+ * In-process NetSapiens v2 stand-in for OITVOIP MCP Server tests
+ * Serves fixture data over HTTP so NetSapiensClient can point at it via apiUrl
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createFixtures, MockNetSapiensData, MockRecord } from './fixtures.js';
+
+export interface MockRequest {
+  method: string;
+  /** Path below /ns-api/v2, without the query string */
+  path: string;
+  /** Named path parameters, e.g. { domain, user } */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/** A handler returns the response body, or a MockResponse via respond() */
+export type MockHandler = (request: MockRequest, data: MockNetSapiensData) => unknown;
+
+export interface MockNetSapiensServerOptions {
+  /** Bearer token the mock accepts (default: test-token) */
+  apiToken?: string;
+  /** Replace some fixture collections */
+  data?: Partial<MockNetSapiensData>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+interface Override {
+  method: string;
+  path: string;
+  response: MockResponse;
+  remaining: number;
+}
+
+const API_PREFIX = '/ns-api/v2';
+const TOKEN_PATH = '/ns-api/oauth2/token/';
+
+const RESPONSE = Symbol('mock-response');
+
+/**
+ * Wrap a status/body/headers triple so a handler can return it
+ */
+export function respond(response: MockResponse): MockResponse & { [RESPONSE]: true } {
+  return { ...response, [RESPONSE]: true };
+}
+
+const notFound = (what: string) => respond({ status: 404, body: { code: 404, message: `${what} not found` } });
+
+// Apply the offset/limit paging every NetSapiens list endpoint supports
+const page = (records: MockRecord[], query: URLSearchParams): MockRecord[] => {
+  const offset = Number(query.get('offset') || 0);
+  const limit = query.has('limit') ? Number(query.get('limit')) : records.length;
+  return records.slice(offset, offset + limit);
+};
+
+const inDomain = (domain: string) => (record: MockRecord) => record.domain === domain;
+
+export class MockNetSapiensServer {
+  /** Mutable fixture data served by the mock */
+  readonly data: MockNetSapiensData;
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+
+  private server: Server;
+  private routes: Route[] = [];
+  private overrides: Override[] = [];
+  private readonly apiToken: string;
+  private url: string | null = null;
+
+  constructor(options: MockNetSapiensServerOptions = {}) {
+    this.apiToken = options.apiToken ?? 'test-token';
+    this.data = { ...createFixtures(), ...options.data };
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, { status: 500, body: { code: 500, message: String(error) } });
+      });
+    });
+    this.registerDefaultRoutes();
+  }
+
+  /**
+   * Base URL to use as the NetSapiens apiUrl
+   */
+  get apiUrl(): string {
+    if (!this.url) {
+      throw new Error('Mock NetSapiens server is not started');
+    }
+    return this.url;
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.url = null;
+  }
+
+  /**
+   * Add or replace a route; patterns use :name placeholders below /ns-api/v2
+   */
+  route(method: string, path: string, handler: MockHandler): this {
+    const keys: string[] = [];
+    const source = path
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/:(\w+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/]+)';
+      });
+    const pattern = new RegExp(`^${source}$`);
+    // Later routes win, so tests can override the defaults
+    this.routes.unshift({ method: method.toUpperCase(), pattern, keys, handler });
+    return this;
+  }
+
+  /**
+   * Answer the next matching request(s) with a canned response, e.g. a 500 or 429
+   */
+  failNext(method: string, path: string, response: MockResponse, times: number = 1): this {
+    this.overrides.push({ method: method.toUpperCase(), path, response, remaining: times });
+    return this;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const rawBody = await readBody(req);
+
+    if (req.method === 'POST' && url.pathname === TOKEN_PATH) {
+      this.send(res, { body: { access_token: this.apiToken, token_type: 'Bearer', expires_in: 3600 } });
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      this.send(res, { status: 404, body: { code: 404, message: 'Not found' } });
+      return;
+    }
+
+    const request: MockRequest = {
+      method: req.method || 'GET',
+      path: decodeURIComponent(url.pathname.slice(API_PREFIX.length)),
+      params: {},
+      query: url.searchParams,
+      headers: req.headers,
+      body: parseBody(rawBody, req.headers['content-type'])
+    };
+    this.requests.push(request);
+
+    if (req.headers.authorization !== `Bearer ${this.apiToken}`) {
+      this.send(res, { status: 401, body: { code: 401, message: 'Invalid or expired token' } });
+      return;
+    }
+
+    const override = this.overrides.find((o) => o.method === request.method && o.path === request.path);
+    if (override) {
+      override.remaining--;
+      if (override.remaining <= 0) {
+        this.overrides.splice(this.overrides.indexOf(override), 1);
+      }
+      this.send(res, override.response);
+      return;
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        route.keys.forEach((key, index) => {
+          request.params[key] = match[index + 1];
+        });
+        const result = route.handler(request, this.data);
+        this.send(res, isMockResponse(result) ? result : { body: result });
+        return;
+      }
+    }
+
+    this.send(res, { status: 404, body: { code: 404, message: `No mock route for ${request.method} ${request.path}` } });
+  }
+
+  private send(res: ServerResponse, response: MockResponse): void {
+    const status = response.status ?? 200;
+    res.writeHead(status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+  }
+
+  private registerDefaultRoutes(): void {
+    const find = (records: MockRecord[], predicate: (record: MockRecord) => boolean, what: string) =>
+      records.find(predicate) ?? notFound(what);
+
+    // Registered in reverse precedence: route() puts newer routes first
+    this.route('GET', '/domains', ({ query }, data) => page(data.domains, query));
+    this.route('GET', '/domains/:domain', ({ params }, data) =>
+      find(data.domains, (d) => d.domain === params.domain, `Domain ${params.domain}`));
+
+    this.route('GET', '/domains/:domain/users', ({ params, query }, data) =>
+      page(searchUsers(data.users.filter(inDomain(params.domain)), query.get('user')), query));
+    this.route('GET', '/domains/:domain/users/:user', ({ params }, data) =>
+      find(data.users, (u) => u.domain === params.domain && u.user === params.user, `User ${params.user}`));
+    this.route('GET', '/domains/~/users/~', ({ query }, data) => page(searchUsers(data.users, query.get('user')), query));
+
+    // Credentials are accepted but, like the real API, never returned
+    this.route('POST', '/domains/:domain/users', ({ params, body }, data) => {
+      const { password, voicemail_pin, ...fields } = body as MockRecord;
+      if (data.users.some((u) => u.domain === params.domain && u.user === fields.user)) {
+        return respond({ status: 409, body: { code: 409, message: `User ${fields.user} already exists` } });
+      }
+      const user = { ...fields, domain: params.domain };
+      data.users.push(user);
+      return respond({ status: 201, body: user });
+    });
+    this.route('PUT', '/domains/:domain/users/:user', ({ params, body }, data) => {
+      const user = data.users.find((u) => u.domain === params.domain && u.user === params.user);
+      if (!user) {
+        return notFound(`User ${params.user}`);
+      }
+      const { password, voicemail_pin, ...fields } = body as MockRecord;
+      return Object.assign(user, fields);
+    });
+    this.route('DELETE', '/domains/:domain/users/:user', ({ params }, data) => {
+      const index = data.users.findIndex((u) => u.domain === params.domain && u.user === params.user);
+      if (index < 0) {
+        return notFound(`User ${params.user}`);
+      }
+      data.users.splice(index, 1);
+      return respond({ status: 204 });
+    });
+
+    this.route('GET', '/domains/:domain/users/:user/devices', ({ params }, data) =>
+      data.devices.filter((d) => d.domain === params.domain && d.user === params.user));
+    const isUserDevice = (params: Record<string, string>) => (d: MockRecord) =>
+      d.domain === params.domain && d.user === params.user && d.device === params.device;
+    this.route('GET', '/domains/:domain/devices', ({ params }, data) => data.devices.filter(inDomain(params.domain)));
+    this.route('GET', '/domains/:domain/users/:user/devices/:device', ({ params }, data) =>
+      find(data.devices, isUserDevice(params), `Device ${params.device}`));
+    this.route('POST', '/domains/:domain/users/:user/devices', ({ params, body }, data) => {
+      const device: MockRecord = { object: 'device', ...(body as MockRecord), user: params.user, domain: params.domain, status: 'unregistered' };
+      if (data.devices.some((d) => d.device === device.device)) {
+        return respond({ status: 409, body: { code: 409, message: `Device ${device.device} already exists` } });
+      }
+      data.devices.push(device);
+      return respond({ status: 201, body: device });
+    });
+    this.route('PUT', '/domains/:domain/users/:user/devices/:device', ({ params, body }, data) => {
+      const device = data.devices.find(isUserDevice(params));
+      return device ? Object.assign(device, body) : notFound(`Device ${params.device}`);
+    });
+    this.route('DELETE', '/domains/:domain/users/:user/devices/:device', ({ params }, data) => {
+      const index = data.devices.findIndex(isUserDevice(params));
+      if (index < 0) {
+        return notFound(`Device ${params.device}`);
+      }
+      data.devices.splice(index, 1);
+      return respond({ status: 204 });
+    });
+
+    this.route('GET', '/devicemodels', (_request, data) => data.deviceModels);
+    const isPhone = (params: Record<string, string>) => (p: MockRecord) => p.domain === params.domain && p.mac === params.mac;
+    this.route('GET', '/domains/:domain/phones', ({ params }, data) => data.phones.filter(inDomain(params.domain)));
+    this.route('GET', '/domains/:domain/phones/:mac', ({ params }, data) => find(data.phones, isPhone(params), `Phone ${params.mac}`));
+    this.route('POST', '/domains/:domain/phones', ({ params, body }, data) => {
+      const phone: MockRecord = { object: 'phone', ...(body as MockRecord), domain: params.domain, status: 'provisioned' };
+      if (data.phones.some((p) => p.mac === phone.mac)) {
+        return respond({ status: 409, body: { code: 409, message: `Phone ${phone.mac} already exists` } });
+      }
+      data.phones.push(phone);
+      return respond({ status: 201, body: phone });
+    });
+    this.route('PUT', '/domains/:domain/phones/:mac', ({ params, body }, data) => {
+      const phone = data.phones.find(isPhone(params));
+      return phone ? Object.assign(phone, body) : notFound(`Phone ${params.mac}`);
+    });
+    this.route('DELETE', '/domains/:domain/phones/:mac', ({ params }, data) => {
+      const index = data.phones.findIndex(isPhone(params));
+      if (index < 0) {
+        return notFound(`Phone ${params.mac}`);
+      }
+      data.phones.splice(index, 1);
+      return respond({ status: 204 });
+    });
+
+    this.route('GET', '/domains/:domain/phonenumbers', ({ params, query }, data) =>
+      page(data.phoneNumbers.filter(inDomain(params.domain)), query));
+    this.route('GET', '/domains/:domain/phonenumbers/:number', ({ params }, data) =>
+      find(data.phoneNumbers, (n) => n.domain === params.domain && n.phonenumber === params.number, `Phone number ${params.number}`));
+
+    this.route('POST', '/domains/:domain/phonenumbers', ({ params, body }, data) => {
+      const number: MockRecord = { object: 'phonenumber', ...(body as MockRecord), domain: params.domain, status: 'active' };
+      if (data.phoneNumbers.some((n) => n.phonenumber === number.phonenumber)) {
+        return respond({ status: 409, body: { code: 409, message: `Phone number ${number.phonenumber} already exists` } });
+      }
+      data.phoneNumbers.push(number);
+      return respond({ status: 201, body: number });
+    });
+    this.route('PUT', '/domains/:domain/phonenumbers/:number', ({ params, body }, data) => {
+      const number = data.phoneNumbers.find((n) => n.domain === params.domain && n.phonenumber === params.number);
+      return number ? Object.assign(number, body) : notFound(`Phone number ${params.number}`);
+    });
+    this.route('DELETE', '/domains/:domain/phonenumbers/:number', ({ params }, data) => {
+      const index = data.phoneNumbers.findIndex((n) => n.domain === params.domain && n.phonenumber === params.number);
+      if (index < 0) {
+        return notFound(`Phone number ${params.number}`);
+      }
+      data.phoneNumbers.splice(index, 1);
+      return respond({ status: 204 });
+    });
+
+    this.route('GET', '/cdrs', ({ query }, data) => page(filterCDRs(data.cdrs, query), query));
+    this.route('GET', '/domains/:domain/cdrs', ({ params, query }, data) =>
+      page(filterCDRs(data.cdrs.filter(inDomain(params.domain)), query), query));
+    this.route('GET', '/domains/:domain/users/:user/cdrs', ({ params, query }, data) =>
+      page(filterCDRs(data.cdrs.filter((c) => c.domain === params.domain && c.user === params.user), query), query));
+
+    this.route('GET', '/domains/:domain/callqueues', ({ params }, data) => data.callQueues.filter(inDomain(params.domain)));
+    this.route('GET', '/domains/:domain/callqueues/:queue', ({ params }, data) =>
+      find(data.callQueues, (q) => q.domain === params.domain && q.callqueue === params.queue, `Call queue ${params.queue}`));
+    this.route('POST', '/domains/:domain/callqueues', ({ params, body }, data) => {
+      const queue: MockRecord = { object: 'callqueue', ...(body as MockRecord), domain: params.domain, status: 'active' };
+      if (data.callQueues.some((q) => q.domain === params.domain && q.callqueue === queue.callqueue)) {
+        return respond({ status: 409, body: { code: 409, message: `Call queue ${queue.callqueue} already exists` } });
+      }
+      data.callQueues.push(queue);
+      return respond({ status: 201, body: queue });
+    });
+    this.route('PUT', '/domains/:domain/callqueues/:queue', ({ params, body }, data) => {
+      const queue = data.callQueues.find((q) => q.domain === params.domain && q.callqueue === params.queue);
+      return queue ? Object.assign(queue, body) : notFound(`Call queue ${params.queue}`);
+    });
+    this.route('DELETE', '/domains/:domain/callqueues/:queue', ({ params }, data) => {
+      const index = data.callQueues.findIndex((q) => q.domain === params.domain && q.callqueue === params.queue);
+      if (index < 0) {
+        return notFound(`Call queue ${params.queue}`);
+      }
+      data.callQueues.splice(index, 1);
+      for (const agent of data.agents.filter(inDomain(params.domain))) {
+        agent.callqueues = agent.callqueues?.filter((queue: string) => queue !== params.queue);
+      }
+      return respond({ status: 204 });
+    });
+
+    // Per-queue agent settings are kept on the agent, keyed by queue, and merged into the queue's agent list
+    const asQueueMember = (agent: MockRecord, queue: string) => {
+      const { queue_settings, ...fields } = agent;
+      return { ...fields, ...queue_settings?.[queue] };
+    };
+    const findMember = (params: Record<string, string>, data: MockNetSapiensData) =>
+      data.agents.find((a) => a.domain === params.domain && a.agent === params.agent && a.callqueues?.includes(params.queue));
+    this.route('GET', '/domains/:domain/callqueues/:queue/agents', ({ params }, data) =>
+      data.agents
+        .filter((a) => a.domain === params.domain && a.callqueues?.includes(params.queue))
+        .map((agent) => asQueueMember(agent, params.queue)));
+    this.route('GET', '/domains/:domain/agents', ({ params }, data) =>
+      data.agents.filter(inDomain(params.domain)).map(({ queue_settings, ...agent }) => agent));
+    this.route('PUT', '/domains/:domain/agents/:agent', ({ params, body }, data) => {
+      const agent = data.agents.find((a) => a.domain === params.domain && a.agent === params.agent);
+      if (!agent) {
+        return notFound(`Agent ${params.agent}`);
+      }
+      const { queue_settings, ...fields } = Object.assign(agent, body);
+      return fields;
+    });
+    this.route('POST', '/domains/:domain/callqueues/:queue/agents', ({ params, body }, data) => {
+      const { agent: agentId, ...settings } = body as MockRecord;
+      let agent = data.agents.find((a) => a.domain === params.domain && a.agent === agentId);
+      if (!agent) {
+        agent = { object: 'agent', agent: agentId, user: agentId, domain: params.domain, status: 'available', login_status: 'logged_out', callqueues: [] };
+        data.agents.push(agent);
+      }
+      agent.callqueues = [...(agent.callqueues || []), params.queue];
+      agent.queue_settings = { ...agent.queue_settings, [params.queue]: settings };
+      return respond({ status: 201, body: asQueueMember(agent, params.queue) });
+    });
+    this.route('PUT', '/domains/:domain/callqueues/:queue/agents/:agent', ({ params, body }, data) => {
+      const agent = findMember(params, data);
+      if (!agent) {
+        return notFound(`Agent ${params.agent} in queue ${params.queue}`);
+      }
+      agent.queue_settings = { ...agent.queue_settings, [params.queue]: { ...agent.queue_settings?.[params.queue], ...(body as MockRecord) } };
+      return asQueueMember(agent, params.queue);
+    });
+    this.route('DELETE', '/domains/:domain/callqueues/:queue/agents/:agent', ({ params }, data) => {
+      const agent = findMember(params, data);
+      if (!agent) {
+        return notFound(`Agent ${params.agent} in queue ${params.queue}`);
+      }
+      agent.callqueues = agent.callqueues.filter((queue: string) => queue !== params.queue);
+      delete agent.queue_settings?.[params.queue];
+      return respond({ status: 204 });
+    });
+
+    const setLoginStatus = (loginStatus: string): MockHandler => ({ params }, data) => {
+      const agent = data.agents.find((a) => a.domain === params.domain && a.agent === params.agent && a.callqueues?.includes(params.queue));
+      if (!agent) {
+        return notFound(`Agent ${params.agent} in queue ${params.queue}`);
+      }
+      agent.login_status = loginStatus;
+      return agent;
+    };
+    this.route('POST', '/domains/:domain/callqueues/:queue/agents/:agent/login', setLoginStatus('logged_in'));
+    this.route('POST', '/domains/:domain/callqueues/:queue/agents/:agent/logout', setLoginStatus('logged_out'));
+
+    this.route('GET', '/domains/:domain/autoattendants', ({ params }, data) => data.autoAttendants.filter(inDomain(params.domain)));
+    const isAttendant = (params: Record<string, string>) => (a: MockRecord) => a.domain === params.domain && a.attendant === params.attendant;
+    this.route('GET', '/domains/:domain/autoattendants/:attendant', ({ params }, data) =>
+      find(data.autoAttendants, isAttendant(params), `Auto attendant ${params.attendant}`));
+    this.route('PUT', '/domains/:domain/autoattendants/:attendant', ({ params, body }, data) => {
+      const attendant = data.autoAttendants.find(isAttendant(params));
+      if (!attendant) {
+        return notFound(`Auto attendant ${params.attendant}`);
+      }
+      Object.assign(attendant, body);
+      // An after-hours menu is removed by sending null
+      if (attendant.after_hours === null) {
+        delete attendant.after_hours;
+      }
+      return attendant;
+    });
+    this.route('GET', '/domains/:domain/conferences', ({ params }, data) => data.conferences.filter(inDomain(params.domain)));
+
+    const isUserRule = (params: Record<string, string>) => (r: MockRecord) =>
+      r.domain === params.domain && r.user === params.user && r.timeframe === params.timeframe;
+    this.route('GET', '/domains/:domain/users/:user/answerrules', ({ params }, data) =>
+      data.answerRules
+        .filter((r) => r.domain === params.domain && r.user === params.user)
+        .sort((a, b) => Number(a.order) - Number(b.order)));
+    this.route('GET', '/domains/:domain/users/:user/answerrules/:timeframe', ({ params }, data) =>
+      find(data.answerRules, isUserRule(params), `Answer rule ${params.timeframe}`));
+    this.route('POST', '/domains/:domain/users/:user/answerrules', ({ params, body }, data) => {
+      const rule: MockRecord = { object: 'answerrule', ...(body as MockRecord), user: params.user, domain: params.domain, status: 'active' };
+      if (data.answerRules.some(isUserRule({ ...params, timeframe: rule.timeframe }))) {
+        return respond({ status: 409, body: { code: 409, message: `Answer rule ${rule.timeframe} already exists` } });
+      }
+      data.answerRules.push(rule);
+      return respond({ status: 201, body: rule });
+    });
+    this.route('PUT', '/domains/:domain/users/:user/answerrules/:timeframe', ({ params, body }, data) => {
+      const rule = data.answerRules.find(isUserRule(params));
+      return rule ? Object.assign(rule, body) : notFound(`Answer rule ${params.timeframe}`);
+    });
+    this.route('DELETE', '/domains/:domain/users/:user/answerrules/:timeframe', ({ params }, data) => {
+      const index = data.answerRules.findIndex(isUserRule(params));
+      if (index < 0) {
+        return notFound(`Answer rule ${params.timeframe}`);
+      }
+      data.answerRules.splice(index, 1);
+      return respond({ status: 204 });
+    });
+
+    // Domain timeframes have no user; the same handlers serve both scopes
+    const inScope = (params: Record<string, string>) => (t: MockRecord) => t.domain === params.domain && t.user === params.user;
+    const isTimeframe = (params: Record<string, string>) => (t: MockRecord) => inScope(params)(t) && t.timeframe === params.timeframe;
+    const timeframeRoutes = (path: string) => {
+      this.route('GET', path, ({ params }, data) => data.timeframes.filter(inScope(params)));
+      this.route('GET', `${path}/:timeframe`, ({ params }, data) =>
+        find(data.timeframes, isTimeframe(params), `Timeframe ${params.timeframe}`));
+      this.route('POST', path, ({ params, body }, data) => {
+        const timeframe: MockRecord = { object: 'timeframe', ...(body as MockRecord), domain: params.domain, ...(params.user ? { user: params.user } : {}) };
+        if (data.timeframes.some(isTimeframe({ ...params, timeframe: timeframe.timeframe }))) {
+          return respond({ status: 409, body: { code: 409, message: `Timeframe ${timeframe.timeframe} already exists` } });
+        }
+        data.timeframes.push(timeframe);
+        return respond({ status: 201, body: timeframe });
+      });
+      this.route('PUT', `${path}/:timeframe`, ({ params, body }, data) => {
+        const timeframe = data.timeframes.find(isTimeframe(params));
+        return timeframe ? Object.assign(timeframe, body) : notFound(`Timeframe ${params.timeframe}`);
+      });
+      this.route('DELETE', `${path}/:timeframe`, ({ params }, data) => {
+        const index = data.timeframes.findIndex(isTimeframe(params));
+        if (index < 0) {
+          return notFound(`Timeframe ${params.timeframe}`);
+        }
+        data.timeframes.splice(index, 1);
+        return respond({ status: 204 });
+      });
+    };
+    timeframeRoutes('/domains/:domain/timeframes');
+    timeframeRoutes('/domains/:domain/users/:user/timeframes');
+
+    this.route('GET', '/domains/:domain/users/:user/greetings', ({ params }, data) =>
+      data.greetings.filter((g) => g.domain === params.domain && g.user === params.user));
+    this.route('GET', '/domains/:domain/users/:user/voicemail', ({ params }, data) =>
+      data.voicemails.filter((v) => v.domain === params.domain && v.user === params.user));
+    this.route('GET', '/domains/:domain/moh', ({ params }, data) => data.musicOnHold.filter(inDomain(params.domain)));
+    this.route('GET', '/domains/:domain/billing', ({ params }, data) =>
+      find(data.billing, inDomain(params.domain), `Billing for ${params.domain}`));
+
+    this.route('GET', '/domains/:domain/statistics/agent', ({ params }, data) => data.agentStatistics.filter(inDomain(params.domain)));
+    this.route('GET', '/domains/:domain/statistics/agent/:agent', ({ params }, data) =>
+      find(data.agentStatistics, (s) => s.domain === params.domain && s.agent === params.agent, `Agent ${params.agent}`));
+  }
+}
+
+function searchUsers(users: MockRecord[], query: string | null): MockRecord[] {
+  if (!query) {
+    return users;
+  }
+  const needle = query.toLowerCase();
+  return users.filter((user) =>
+    ['user', 'first_name', 'last_name', 'email', 'extension'].some((field) =>
+      String(user[field] ?? '').toLowerCase().includes(needle)
+    )
+  );
+}
+
+function filterCDRs(cdrs: MockRecord[], query: URLSearchParams): MockRecord[] {
+  const start = query.get('start_time');
+  const end = query.get('end_time');
+  return cdrs.filter((cdr) => (!start || cdr.start_time >= start) && (!end || cdr.start_time <= end));
+}
+
+function isMockResponse(value: unknown): value is MockResponse {
+  return typeof value === 'object' && value !== null && RESPONSE in value;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function parseBody(body: string, contentType: string | undefined): unknown {
+  if (!body) {
+    return undefined;
+  }
+  if (contentType?.includes('application/json')) {
+    return JSON.parse(body);
+  }
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  return body;
+}
@@ -0,0 +1,268 @@
+/**
+ * Answer rule tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensNotFoundError } from '../errors.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { NetSapiensAnswerRule, NetSapiensAnswerRuleFields } from '../types/config.js';
+import { defineTool, ToolContext } from './registry.js';
+import { userArguments } from './users.js';
+
+const timeframeArguments = {
+  ...userArguments,
+  timeframe: z.string().min(1).describe('Timeframe the answer rule applies in, e.g. default or after-hours')
+};
+
+// A phone number, an extension or a user@domain SIP destination
+export const destination = z
+  .string()
+  .regex(/^(\+?\d{2,15}|[\w.-]+@[\w.-]+)$/, 'must be a phone number, extension or user@domain');
+
+// An empty string turns a forward off
+const forwardDestination = destination.or(z.literal(''));
+
+const answerRuleFieldArguments = {
+  enabled: z.boolean().optional().describe('Whether the rule is active'),
+  forwardAlways: forwardDestination.optional().describe('Forward every call here ("" to turn off)'),
+  forwardBusy: forwardDestination.optional().describe('Forward here when the user is on another call ("" to turn off)'),
+  forwardNoAnswer: forwardDestination.optional().describe('Forward here when the call is not answered ("" to turn off)'),
+  noAnswerTimeout: z.number().int().min(5).max(120).optional().describe('Seconds to ring before forwarding on no answer'),
+  forwardOffline: forwardDestination.optional().describe('Forward here when none of the user\'s devices are registered ("" to turn off)'),
+  simultaneousRing: z.array(destination).max(10).optional().describe('Destinations to ring alongside the user\'s devices ([] to turn off)'),
+  simultaneousRingDelay: z.number().int().min(0).max(60).optional().describe('Seconds to wait before ringing the simultaneous ring destinations'),
+  doNotDisturb: z.boolean().optional().describe('Send every call straight to voicemail or the no-answer forward'),
+  callScreening: z.boolean().optional().describe('Ask callers to record their name before the call is presented'),
+  voicemail: z.boolean().optional().describe('Whether unanswered calls go to voicemail')
+};
+
+type AnswerRuleFieldArguments = { [K in keyof typeof answerRuleFieldArguments]?: z.infer<(typeof answerRuleFieldArguments)[K]> };
+
+const toAnswerRuleFields = (args: AnswerRuleFieldArguments): NetSapiensAnswerRuleFields =>
+  Object.fromEntries(
+    Object.entries({
+      enabled: args.enabled,
+      forward: args.forwardAlways,
+      forward_busy: args.forwardBusy,
+      forward_no_answer: args.forwardNoAnswer,
+      no_answer_timeout: args.noAnswerTimeout,
+      forward_offline: args.forwardOffline,
+      simultaneous_ring: args.simultaneousRing,
+      simultaneous_ring_delay: args.simultaneousRingDelay,
+      do_not_disturb: args.doNotDisturb,
+      call_screening: args.callScreening,
+      voicemail: args.voicemail
+    }).filter(([, value]) => value !== undefined)
+  );
+
+const getCurrentRule = async ({ userId, domain, timeframe }: { userId: string; domain: string; timeframe: string }, { client }: ToolContext) =>
+  (await client.getUserAnswerRule(userId, domain, timeframe)).data;
+
+// The user's rules, leaving out any record without a timeframe: it can't be addressed to move it
+const getRules = async (client: NetSapiensClient, userId: string, domain: string) =>
+  ((await client.getUserAnswerRules(userId, domain)).data || []).filter(
+    (rule): rule is NetSapiensAnswerRule & { timeframe: string } => typeof rule?.timeframe === 'string' && rule.timeframe !== ''
+  );
+
+// Rule order as { timeframe: position }, so dry runs show each move as a change
+const toOrder = (timeframes: string[]) => Object.fromEntries(timeframes.map((timeframe, index) => [timeframe, index + 1]));
+
+const byOrder = (rules: NetSapiensAnswerRule[]) =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (a.rule.order ?? a.index + 1) - (b.rule.order ?? b.index + 1))
+    .map(({ rule }) => rule);
+
+/**
+ * Reject a timeframe that is neither the user's nor the domain's; NetSapiens would store a rule that never applies.
+ * The default timeframe always applies and has no timeframe record.
+ */
+async function assertTimeframe(client: NetSapiensClient, userId: string, domain: string, timeframe: string): Promise<void> {
+  if (timeframe === 'default') {
+    return;
+  }
+  for (const owner of [userId, undefined]) {
+    try {
+      await client.getTimeframe(domain, timeframe, owner);
+      return;
+    } catch (error) {
+      if (!(error instanceof NetSapiensNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Timeframe ${timeframe} does not exist for user ${userId}@${domain} or domain ${domain}; create it with create_timeframe first`
+  );
+}
+
+export const answerRuleTools = [
+  defineTool({
+    name: 'get_user_answer_rules',
+    description: 'Get answer rules for a user',
+    inputSchema: z.object(userArguments),
+    handler: async ({ userId, domain }, { client }) => {
+      const result = await client.getUserAnswerRules(userId, domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} answer rules for user ${userId}@${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_user_answer_rule',
+    description: 'Get specific answer rule for a user',
+    inputSchema: z.object({
+      ...userArguments,
+      timeframe: z.string().min(1).describe('Timeframe for the answer rule')
+    }),
+    handler: async ({ userId, domain, timeframe }, { client }) => {
+      const result = await client.getUserAnswerRule(userId, domain, timeframe);
+      return {
+        message: `Retrieved answer rule for ${userId}@${domain} timeframe ${timeframe}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_answer_rule',
+    category: 'write',
+    description: 'Create an answer rule for one of a user\'s timeframes: forwarding (always, busy, no answer, offline), ' +
+      'simultaneous ring, do not disturb, call screening and voicemail. The timeframe must exist for the user or domain. ' +
+      'New rules go last unless an order is given; rules from that position on move down one place.',
+    inputSchema: z.object({
+      ...timeframeArguments,
+      ...answerRuleFieldArguments,
+      order: z.number().int().positive().optional().describe('Position in the user\'s rule list, from 1 (default: last)')
+    }),
+    target: ({ userId, timeframe }) => `user ${userId} answerrule ${timeframe}`,
+    currentState: async () => null,
+    expectedState: (_current, { userId, domain, timeframe, order, ...fields }) => ({
+      timeframe,
+      user: userId,
+      domain,
+      ...(order !== undefined ? { order } : {}),
+      ...toAnswerRuleFields(fields)
+    }),
+    handler: async ({ userId, domain, timeframe, order, ...fields }, { client }) => {
+      const existing = await getRules(client, userId, domain);
+      if (existing.some((rule) => rule.timeframe === timeframe)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `User ${userId}@${domain} already has an answer rule for timeframe ${timeframe}; use update_answer_rule instead`
+        );
+      }
+
+      if (order !== undefined && order > existing.length + 1) {
+        throw new McpError(ErrorCode.InvalidParams, `order must be between 1 and ${existing.length + 1}: the user has ${existing.length} answer rules`);
+      }
+      await assertTimeframe(client, userId, domain, timeframe);
+
+      // Make room: rules at or after the new rule's position move down one place
+      const position = order ?? existing.length + 1;
+      const moved = byOrder(existing)
+        .map((rule, index) => ({ rule, order: index + 1 < position ? index + 1 : index + 2 }))
+        .filter(({ rule, order }) => rule.order !== order);
+
+      const result = await client.createUserAnswerRule(userId, domain, timeframe, {
+        order: position,
+        ...toAnswerRuleFields(fields)
+      });
+      for (const { rule, order } of moved) {
+        await client.updateUserAnswerRule(userId, domain, rule.timeframe, { order });
+      }
+      return {
+        message: `Created answer rule ${timeframe} for ${userId}@${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_answer_rule',
+    category: 'write',
+    description: 'Change some of an answer rule\'s settings, e.g. forward calls to a cell phone after hours. Fields that are not given are left unchanged.',
+    inputSchema: z.object({
+      ...timeframeArguments,
+      ...answerRuleFieldArguments
+    }),
+    target: ({ userId, timeframe }) => `user ${userId} answerrule ${timeframe}`,
+    currentState: getCurrentRule,
+    expectedState: (current, { userId, domain, timeframe, ...fields }) => ({ ...current, ...toAnswerRuleFields(fields) }),
+    handler: async ({ userId, domain, timeframe, ...fields }, { client }) => {
+      const changes = toAnswerRuleFields(fields);
+      if (Object.keys(changes).length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_answer_rule needs at least one field to change');
+      }
+
+      // Fails with not_found before anything is sent if the rule does not exist
+      await client.getUserAnswerRule(userId, domain, timeframe);
+      const result = await client.updateUserAnswerRule(userId, domain, timeframe, changes);
+      return {
+        message: `Updated answer rule ${timeframe} for ${userId}@${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_answer_rule',
+    category: 'write',
+    description: 'Delete the answer rule for one of a user\'s timeframes',
+    inputSchema: z.object(timeframeArguments),
+    target: ({ userId, timeframe }) => `user ${userId} answerrule ${timeframe}`,
+    currentState: getCurrentRule,
+    expectedState: () => null,
+    handler: async ({ userId, domain, timeframe }, { client }) => {
+      await client.getUserAnswerRule(userId, domain, timeframe);
+      const result = await client.deleteUserAnswerRule(userId, domain, timeframe);
+      return {
+        message: `Deleted answer rule ${timeframe} for ${userId}@${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'reorder_answer_rules',
+    category: 'write',
+    description: 'Set the order in which a user\'s answer rules are evaluated; the first enabled rule whose timeframe matches is used',
+    inputSchema: z.object({
+      ...userArguments,
+      timeframes: z.array(z.string().min(1)).min(1).describe('Every one of the user\'s rule timeframes, in the new order')
+    }),
+    target: ({ userId }) => `user ${userId} answerrules`,
+    currentState: async ({ userId, domain }, { client }) =>
+      toOrder(byOrder(await getRules(client, userId, domain)).map((rule) => rule.timeframe)),
+    expectedState: (_current, { timeframes }) => toOrder(timeframes),
+    handler: async ({ userId, domain, timeframes }, { client }) => {
+      const rules = byOrder(await getRules(client, userId, domain));
+      const current = rules.map((rule) => rule.timeframe);
+      const missing = current.filter((timeframe) => !timeframes.includes(timeframe));
+      const unknown = timeframes.filter((timeframe) => !current.includes(timeframe));
+      if (missing.length > 0 || unknown.length > 0 || new Set(timeframes).size !== timeframes.length) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `timeframes must list each of the user's rules exactly once (current rules: ${current.join(', ')})`
+        );
+      }
+
+      // NetSapiens has no bulk reorder, so move each rule whose position changes
+      const order = toOrder(timeframes);
+      const moved = rules.filter((rule, index) => (rule.order ?? index + 1) !== order[rule.timeframe]);
+      for (const rule of moved) {
+        await client.updateUserAnswerRule(userId, domain, rule.timeframe, { order: order[rule.timeframe] });
+      }
+      return {
+        message: `Reordered answer rules for ${userId}@${domain} (${moved.length} moved)`,
+        data: timeframes.map((timeframe) => ({ timeframe, order: order[timeframe] }))
+      };
+    }
+  })
+];
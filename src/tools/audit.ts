@@ -0,0 +1,43 @@
+/**
+ * Audit tools: query the log of write tool calls
+ */
+
+import { z } from 'zod';
+import { domainName } from './domains.js';
+import { defineTool } from './registry.js';
+
+const timestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'must be an ISO 8601 date or timestamp');
+
+export const auditTools = [
+  defineTool({
+    name: 'get_audit_log',
+    description: 'Query the audit log of write tool calls (newest first) by time range, domain, tool or outcome',
+    inputSchema: z.object({
+      since: timestamp.optional().describe('Only entries at or after this time (ISO 8601, e.g. 2026-01-06 or 2026-01-06T09:00:00Z)'),
+      until: timestamp.optional().describe('Only entries at or before this time (ISO 8601)'),
+      domain: domainName.optional().describe('Only calls against this domain'),
+      tool: z.string().min(1).optional().describe('Only calls to this tool, e.g. login_agent'),
+      outcome: z.enum(['success', 'error', 'denied']).optional().describe('Only calls with this outcome'),
+      limit: z.number().int().min(1).max(1000).default(100).describe('Maximum number of entries to return')
+    }),
+    usesProfile: false,
+    // Leaving out the domain filter must still query every allowed domain
+    usesDefaultDomain: false,
+    handler: async ({ limit, ...query }, { audit, isDomainAllowed }) => {
+      if (!audit) {
+        return { success: false, message: 'Audit logging is disabled (set AUDIT_LOG_ENABLED=true to enable it)' };
+      }
+
+      // Entries for domains the policy hides are never returned, whatever the query
+      const entries = (await audit.query(query))
+        .filter((entry) => !entry.domain || isDomainAllowed(entry.domain))
+        .slice(0, limit);
+      return {
+        message: `Retrieved ${entries.length} audit log entries`,
+        data: entries
+      };
+    }
+  })
+];
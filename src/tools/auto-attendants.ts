@@ -0,0 +1,300 @@
+/**
+ * Auto attendant tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensNotFoundError } from '../errors.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import {
+  NetSapiensAutoAttendant,
+  NetSapiensAutoAttendantFields,
+  NetSapiensAutoAttendantMenu,
+  NetSapiensMenuAction
+} from '../types/config.js';
+import { domainArguments } from './domains.js';
+import { findDestinationProblem } from './phone-numbers.js';
+import { defineTool, ToolContext } from './registry.js';
+
+const attendantArguments = {
+  ...domainArguments,
+  attendantId: z.string().min(1).describe('Auto attendant ID')
+};
+
+// Actions that leave the menu system for somewhere a caller can be helped
+const EXIT_ACTIONS = ['user', 'callqueue', 'conference', 'voicemail', 'external', 'directory'];
+const WITHOUT_DESTINATION = ['repeat', 'directory', 'hangup'];
+
+const menuAction = z
+  .object({
+    type: z
+      .enum(['user', 'callqueue', 'autoattendant', 'conference', 'voicemail', 'external', 'repeat', 'directory', 'hangup'])
+      .describe('What the key does; voicemail goes to a user\'s mailbox, repeat plays the menu again'),
+    destination: z.string().min(1).optional().describe('User, call queue, auto attendant, conference or mailbox ID, or the external number')
+  })
+  .refine((action) => WITHOUT_DESTINATION.includes(action.type) || action.destination !== undefined, 'destination is required for this type');
+
+const menuKey = z.string().regex(/^[0-9*#]$/, 'must be 0-9, * or #');
+
+const menuArguments = {
+  prompt: z.string().min(1).optional().describe('Greeting played before waiting for a key'),
+  timeout: z.number().int().min(1).max(60).optional().describe('Seconds to wait for a key'),
+  options: z.record(menuKey, menuAction).optional().describe('Keys to actions, e.g. {"1": {"type": "callqueue", "destination": "8001"}}; replaces every key'),
+  timeoutAction: menuAction.optional().describe('What happens when no key is pressed in time'),
+  invalidAction: menuAction.optional().describe('What happens when a key with no option is pressed')
+};
+
+type MenuArguments = { [K in keyof typeof menuArguments]?: z.infer<(typeof menuArguments)[K]> };
+
+const toMenu = ({ prompt, timeout, options, timeoutAction, invalidAction }: MenuArguments): NetSapiensAutoAttendantMenu =>
+  Object.fromEntries(
+    Object.entries({ prompt, timeout, options, timeout_action: timeoutAction, invalid_action: invalidAction }).filter(([, value]) => value !== undefined)
+  );
+
+type MenuName = 'main' | 'after_hours';
+
+const menuLabel = (menu: MenuName) => (menu === 'main' ? 'main menu' : 'after-hours menu');
+
+const getMenus = (attendant: NetSapiensAutoAttendant): Array<[MenuName, NetSapiensAutoAttendantMenu]> =>
+  attendant.after_hours ? [['main', attendant], ['after_hours', attendant.after_hours]] : [['main', attendant]];
+
+// Every action a menu can take, labelled the way problems are reported; actions without a type are skipped
+const getActions = (menu: NetSapiensAutoAttendantMenu): Array<[string, NetSapiensMenuAction]> =>
+  [
+    ...Object.entries(menu.options || {}).map(([key, action]): [string, NetSapiensMenuAction] => [`key ${key}`, action]),
+    ...(menu.timeout_action ? [['timeout', menu.timeout_action] as [string, NetSapiensMenuAction]] : []),
+    ...(menu.invalid_action ? [['invalid entry', menu.invalid_action] as [string, NetSapiensMenuAction]] : [])
+  ].filter(([, action]) => typeof action?.type === 'string');
+
+/**
+ * IDs of the attendants from which a caller can always reach a person, queue, mailbox or
+ * external number: every menu has an exit, directly or through another such attendant
+ */
+function findExitingAttendants(attendants: NetSapiensAutoAttendant[]): Set<string> {
+  const exiting = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const attendant of attendants) {
+      if (!attendant.attendant || exiting.has(attendant.attendant)) {
+        continue;
+      }
+      const exits = getMenus(attendant).every(([, menu]) =>
+        getActions(menu).some(([, action]) =>
+          EXIT_ACTIONS.includes(action.type) || (action.type === 'autoattendant' && exiting.has(action.destination as string))
+        )
+      );
+      if (exits) {
+        exiting.add(attendant.attendant);
+        changed = true;
+      }
+    }
+  }
+  return exiting;
+}
+
+/**
+ * Reject an auto attendant whose menus send callers to destinations that don't exist,
+ * to dead ends, or round in loops with no way out; every problem is listed at once
+ */
+async function assertValidMenus(client: NetSapiensClient, domain: string, proposed: NetSapiensAutoAttendant): Promise<void> {
+  const problems: string[] = [];
+  const checked = new Map<string, Promise<string | undefined>>();
+  const checkDestination = (action: NetSapiensMenuAction) => {
+    const routing = action.type === 'voicemail' ? 'user' : action.type;
+    if (!['user', 'callqueue', 'autoattendant', 'conference', 'external'].includes(routing)) {
+      return Promise.resolve(undefined);
+    }
+    const key = `${routing}:${action.destination}`;
+    if (!checked.has(key)) {
+      checked.set(key, findDestinationProblem(client, domain, routing as 'user', action.destination as string));
+    }
+    return checked.get(key) as Promise<string | undefined>;
+  };
+
+  for (const [name, menu] of getMenus(proposed)) {
+    for (const [label, action] of getActions(menu)) {
+      const problem = await checkDestination(action);
+      if (problem) {
+        problems.push(`${menuLabel(name)} ${label}: ${problem}`);
+      }
+    }
+  }
+
+  if (proposed.after_hours && !proposed.business_hours_timeframe) {
+    problems.push('an after-hours menu needs a business hours timeframe');
+  }
+  if (proposed.business_hours_timeframe) {
+    try {
+      await client.getTimeframe(domain, proposed.business_hours_timeframe);
+    } catch (error) {
+      if (!(error instanceof NetSapiensNotFoundError)) {
+        throw error;
+      }
+      problems.push(`timeframe ${proposed.business_hours_timeframe} does not exist in domain ${domain}`);
+    }
+  }
+
+  // Other attendants are taken as they are; only this one's menus are reported
+  const others = ((await client.getAutoAttendants(domain)).data || []).filter(
+    (attendant): attendant is NetSapiensAutoAttendant =>
+      attendant != null && typeof attendant.attendant === 'string' && attendant.attendant !== proposed.attendant
+  );
+  const exiting = findExitingAttendants([...others, proposed]);
+  for (const [name, menu] of getMenus(proposed)) {
+    const actions = getActions(menu);
+    const hasExit = actions.some(([, action]) =>
+      EXIT_ACTIONS.includes(action.type) || (action.type === 'autoattendant' && exiting.has(action.destination as string))
+    );
+    if (!hasExit) {
+      const loops = actions.some(([, action]) => action.type === 'repeat' || action.type === 'autoattendant');
+      problems.push(
+        loops
+          ? `${menuLabel(name)} loops back to itself without an exit to a person, queue, mailbox or external number`
+          : `${menuLabel(name)} is a dead end: no option reaches a person, queue, mailbox or external number`
+      );
+      continue;
+    }
+    for (const [label, action] of actions) {
+      if (action.type === 'autoattendant' && action.destination !== proposed.attendant && !exiting.has(action.destination as string)) {
+        if (others.some((attendant) => attendant.attendant === action.destination)) {
+          problems.push(`${menuLabel(name)} ${label}: auto attendant ${action.destination} is a dead end`);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid auto attendant menu: ${problems.join('; ')}`);
+  }
+}
+
+const getCurrentAttendant = async ({ domain, attendantId }: { domain: string; attendantId: string }, { client }: ToolContext) =>
+  (await client.getAutoAttendant(domain, attendantId)).data;
+
+// The attendant as it would be after the update; after_hours null removes the after-hours menu
+const applyFields = (current: NetSapiensAutoAttendant, fields: NetSapiensAutoAttendantFields): NetSapiensAutoAttendant => {
+  const { after_hours, ...rest } = { ...current, ...fields };
+  return after_hours ? { ...rest, after_hours } : rest;
+};
+
+/**
+ * Validate and send an update, returning the tool output
+ */
+async function updateAttendant(client: NetSapiensClient, domain: string, attendantId: string, fields: NetSapiensAutoAttendantFields) {
+  const current = (await client.getAutoAttendant(domain, attendantId)).data as NetSapiensAutoAttendant;
+  await assertValidMenus(client, domain, applyFields(current, fields));
+
+  const result = await client.updateAutoAttendant(domain, attendantId, fields);
+  return {
+    message: `Updated auto attendant ${attendantId} in domain ${domain}`,
+    data: result.data
+  };
+}
+
+export const autoAttendantTools = [
+  defineTool({
+    name: 'get_auto_attendants',
+    description: 'Get auto attendants for a domain',
+    inputSchema: z.object(domainArguments),
+    handler: async ({ domain }, { client }) => {
+      const result = await client.getAutoAttendants(domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} auto attendants for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_auto_attendant',
+    description: 'Get one auto attendant with its main and after-hours menus',
+    inputSchema: z.object(attendantArguments),
+    handler: async ({ domain, attendantId }, { client }) => {
+      const result = await client.getAutoAttendant(domain, attendantId);
+      return {
+        message: `Retrieved auto attendant ${attendantId} for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_auto_attendant',
+    category: 'write',
+    description: 'Change an auto attendant\'s name, main menu, business hours timeframe or after-hours menu. ' +
+      'Every destination must exist, and menus that dead-end or loop without an exit are rejected.',
+    inputSchema: z.object({
+      ...attendantArguments,
+      name: z.string().min(1).optional().describe('Name'),
+      ...menuArguments,
+      businessHoursTimeframe: z.string().optional().describe('Timeframe during which the main menu plays ("" to always play it)'),
+      afterHours: z.object(menuArguments).nullable().optional().describe('Menu played outside the business hours timeframe (null to remove)')
+    }),
+    target: ({ attendantId }) => `autoattendant ${attendantId}`,
+    currentState: getCurrentAttendant,
+    expectedState: (current, { domain, attendantId, name, businessHoursTimeframe, afterHours, ...menu }) =>
+      applyFields(current, toAttendantFields(name, menu, businessHoursTimeframe, afterHours)),
+    handler: async ({ domain, attendantId, name, businessHoursTimeframe, afterHours, ...menu }, { client }) => {
+      const fields = toAttendantFields(name, menu, businessHoursTimeframe, afterHours);
+      if (Object.keys(fields).length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_auto_attendant needs at least one field to change');
+      }
+      return updateAttendant(client, domain, attendantId, fields);
+    }
+  }),
+
+  defineTool({
+    name: 'set_auto_attendant_option',
+    category: 'write',
+    description: 'Set or remove what one key does in an auto attendant\'s main or after-hours menu. ' +
+      'The destination must exist, and a change that leaves the menu a dead end or a loop without an exit is rejected.',
+    inputSchema: z.object({
+      ...attendantArguments,
+      menu: z.enum(['main', 'after_hours']).default('main').describe('Menu to change (default: main)'),
+      key: menuKey.describe('Key: 0-9, * or #'),
+      action: menuAction.nullable().describe('What the key does, or null to remove the option')
+    }),
+    target: ({ attendantId, menu, key }) => `autoattendant ${attendantId} ${menu} key ${key}`,
+    currentState: getCurrentAttendant,
+    expectedState: (current, { menu, key, action }) => applyFields(current, toOptionFields(current, menu, key, action)),
+    handler: async ({ domain, attendantId, menu, key, action }, { client }) => {
+      const current = (await client.getAutoAttendant(domain, attendantId)).data as NetSapiensAutoAttendant;
+      if (menu === 'after_hours' && !current.after_hours) {
+        throw new McpError(ErrorCode.InvalidParams, `Auto attendant ${attendantId} has no after-hours menu; add one with update_auto_attendant`);
+      }
+      return updateAttendant(client, domain, attendantId, toOptionFields(current, menu, key, action));
+    }
+  })
+];
+
+function toAttendantFields(
+  name: string | undefined,
+  menu: MenuArguments,
+  businessHoursTimeframe: string | undefined,
+  afterHours: MenuArguments | null | undefined
+): NetSapiensAutoAttendantFields {
+  return Object.fromEntries(
+    Object.entries({
+      name,
+      ...toMenu(menu),
+      business_hours_timeframe: businessHoursTimeframe,
+      after_hours: afterHours === null ? null : afterHours && toMenu(afterHours)
+    }).filter(([, value]) => value !== undefined)
+  );
+}
+
+// The options map of one menu with a key set or removed; NetSapiens replaces the map as a whole
+function toOptionFields(
+  current: NetSapiensAutoAttendant,
+  menu: MenuName,
+  key: string,
+  action: NetSapiensMenuAction | null
+): NetSapiensAutoAttendantFields {
+  const target = menu === 'main' ? current : current.after_hours || {};
+  const { [key]: _removed, ...options } = target.options || {};
+  const nextOptions = action ? { ...options, [key]: action } : options;
+  return menu === 'main' ? { options: nextOptions } : { after_hours: { ...target, options: nextOptions } };
+}
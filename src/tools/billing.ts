@@ -0,0 +1,23 @@
+/**
+ * Billing tools
+ */
+
+import { z } from 'zod';
+import { domainArguments } from './domains.js';
+import { defineTool } from './registry.js';
+
+export const billingTools = [
+  defineTool({
+    name: 'get_billing',
+    description: 'Get billing information for a domain',
+    inputSchema: z.object(domainArguments),
+    handler: async ({ domain }, { client }) => {
+      const result = await client.getBilling(domain);
+      return {
+        message: `Retrieved billing information for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  })
+];
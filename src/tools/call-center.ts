@@ -0,0 +1,508 @@
+/**
+ * Call center tools: call queues, agents and agent statistics
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensError, NetSapiensNotFoundError } from '../errors.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { NetSapiensAgent, NetSapiensAgentStatus, NetSapiensCallQueueFields, NetSapiensQueueAgentFields } from '../types/config.js';
+import { destination } from './answer-rules.js';
+import { domainArguments } from './domains.js';
+import { cacheArguments, defineTool, ToolContext } from './registry.js';
+
+const queueArguments = {
+  ...domainArguments,
+  queueId: z.string().min(1).describe('Call queue ID')
+};
+
+const agentArguments = {
+  ...queueArguments,
+  agentId: z.string().min(1).describe('Agent ID')
+};
+
+type AgentArguments = { domain: string; queueId: string; agentId: string };
+
+const queueFieldArguments = {
+  name: z.string().min(1).optional().describe('Queue name'),
+  description: z.string().optional().describe('Description'),
+  strategy: z
+    .enum(['ring-all', 'round-robin', 'linear-hunt', 'longest-idle', 'fewest-calls'])
+    .optional()
+    .describe('How calls are offered to agents; linear-hunt follows agent priority'),
+  maxWaitTime: z.number().int().min(0).max(86400).optional().describe('Seconds a caller waits before the call overflows'),
+  musicOnHold: z.string().min(1).optional().describe('Music on hold played while callers wait'),
+  overflowDestination: destination.or(z.literal('')).optional().describe('Where calls go after maxWaitTime ("" for none)'),
+  wrapUpTime: z.number().int().min(0).max(600).optional().describe('Seconds after a call before an agent is offered the next one')
+};
+
+type QueueFieldArguments = { [K in keyof typeof queueFieldArguments]?: z.infer<(typeof queueFieldArguments)[K]> };
+
+const toCallQueueFields = (args: QueueFieldArguments): NetSapiensCallQueueFields =>
+  Object.fromEntries(
+    Object.entries({
+      name: args.name,
+      description: args.description,
+      strategy: args.strategy,
+      max_wait_time: args.maxWaitTime,
+      music_on_hold: args.musicOnHold,
+      overflow_destination: args.overflowDestination,
+      wrap_up_time: args.wrapUpTime
+    }).filter(([, value]) => value !== undefined)
+  );
+
+const queueAgentFieldArguments = {
+  priority: z.number().int().min(1).max(99).optional().describe('Hunt order position; lower numbers are offered calls first'),
+  wrapUpTime: z.number().int().min(0).max(600).optional().describe('Wrap-up seconds for this agent in this queue, overriding the queue\'s'),
+  requestConfirmation: z.boolean().optional().describe('Whether the agent must accept each queue call'),
+  autoAnswer: z.boolean().optional().describe('Whether queue calls are answered automatically')
+};
+
+type QueueAgentFieldArguments = { [K in keyof typeof queueAgentFieldArguments]?: z.infer<(typeof queueAgentFieldArguments)[K]> };
+
+const toQueueAgentFields = (args: QueueAgentFieldArguments): NetSapiensQueueAgentFields =>
+  Object.fromEntries(
+    Object.entries({
+      priority: args.priority,
+      wrap_up_time: args.wrapUpTime,
+      request_confirmation: args.requestConfirmation,
+      auto_answer: args.autoAnswer
+    }).filter(([, value]) => value !== undefined)
+  );
+
+const getCurrentQueue = async ({ domain, queueId }: { domain: string; queueId: string }, { client }: ToolContext) =>
+  (await client.getCallQueue(domain, queueId)).data;
+
+// The agent's queue membership, which login_agent and logout_agent change
+const getQueueAgent = async ({ domain, queueId, agentId }: AgentArguments, { client }: ToolContext) => {
+  const result = await client.getCallQueueAgents(domain, queueId);
+  const agent = result.data?.find((member) => member.agent === agentId);
+  if (!agent) {
+    throw new NetSapiensNotFoundError(`Agent ${agentId} is not a member of call queue ${queueId}`);
+  }
+  return agent;
+};
+
+const agentStatusArguments = {
+  status: z
+    .enum(['available', 'break', 'lunch', 'meeting', 'training', 'offline'])
+    .describe('available logs the agent in to their queues; any other status logs them out'),
+  reason: z.string().min(1).max(64).optional().describe('Reason code recorded with the status'),
+  queueIds: z.array(z.string().min(1)).min(1).optional().describe('Queues to change (default: all of the agent\'s queues)')
+};
+
+/** An agent's status and login state in each of the queues being changed */
+interface AgentStatusState {
+  status?: string;
+  reason?: string;
+  /** Queue ID to login_status */
+  queues: Record<string, string | undefined>;
+}
+
+interface QueueStatusResult {
+  queueId: string;
+  action: 'login' | 'logout';
+  result: 'changed' | 'unchanged' | 'failed';
+  error?: { type: string; message: string };
+}
+
+/**
+ * Every agent's status plus each queue's members, read once so a bulk change doesn't
+ * look up the same queues for every agent
+ */
+async function loadAgentStatus(client: NetSapiensClient, domain: string) {
+  const agents = (await client.getAgents(domain)).data || [];
+  const members = new Map<string, NetSapiensAgent[]>();
+  // Membership decides which queues change, so don't act on a cached queue list
+  for (const queue of (await client.getCallQueues(domain, { bypassCache: true })).data || []) {
+    if (queue?.callqueue) {
+      members.set(queue.callqueue, (await client.getCallQueueAgents(domain, queue.callqueue)).data || []);
+    }
+  }
+
+  return (agentId: string, queueIds?: string[]): AgentStatusState => {
+    const agent = agents.find((candidate) => candidate?.agent === agentId);
+    if (!agent) {
+      throw new NetSapiensNotFoundError(`Agent ${agentId} not found in domain ${domain}`);
+    }
+    const queues: Record<string, string | undefined> = {};
+    for (const [queueId, queueMembers] of members) {
+      const member = queueMembers.find((candidate) => candidate?.agent === agentId);
+      if (member && (!queueIds || queueIds.includes(queueId))) {
+        queues[queueId] = member.login_status;
+      }
+    }
+    const missing = queueIds?.filter((queueId) => !(queueId in queues)) || [];
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Agent ${agentId} is not a member of call queue ${missing.join(', ')}`);
+    }
+    return { status: agent.status, reason: agent.status_reason, queues };
+  };
+}
+
+const loginStatusFor = (status: NetSapiensAgentStatus) => (status === 'available' ? 'logged_in' : 'logged_out');
+
+const toExpectedStatus = (current: AgentStatusState, status: NetSapiensAgentStatus, reason?: string): AgentStatusState => ({
+  status,
+  reason: reason ?? '',
+  queues: Object.fromEntries(Object.keys(current.queues).map((queueId) => [queueId, loginStatusFor(status)]))
+});
+
+const describeFailure = (error: unknown) =>
+  error instanceof NetSapiensError ? { type: error.type, message: error.message } : { type: 'unknown', message: String(error) };
+
+/**
+ * Set the agent's status, then log them in to or out of each queue. A queue that fails
+ * is reported and the rest are still changed; the returned state reflects what happened.
+ */
+async function applyAgentStatus(
+  client: NetSapiensClient,
+  domain: string,
+  agentId: string,
+  current: AgentStatusState,
+  status: NetSapiensAgentStatus,
+  reason?: string
+) {
+  await client.setAgentStatus(domain, agentId, status, reason);
+
+  const action = status === 'available' ? 'login' : 'logout';
+  const queues = { ...current.queues };
+  const results: QueueStatusResult[] = [];
+  for (const queueId of Object.keys(current.queues)) {
+    if (current.queues[queueId] === loginStatusFor(status)) {
+      results.push({ queueId, action, result: 'unchanged' });
+      continue;
+    }
+    try {
+      await (action === 'login' ? client.loginAgent(domain, queueId, agentId) : client.logoutAgent(domain, queueId, agentId));
+      queues[queueId] = loginStatusFor(status);
+      results.push({ queueId, action, result: 'changed' });
+    } catch (error) {
+      results.push({ queueId, action, result: 'failed', error: describeFailure(error) });
+    }
+  }
+
+  return { agent: agentId, status, reason: reason ?? '', queues, results };
+}
+
+const countFailures = (results: QueueStatusResult[]) => results.filter((result) => result.result === 'failed').length;
+
+export const callCenterTools = [
+  defineTool({
+    name: 'get_call_queues',
+    description: 'Get call queues for a domain',
+    inputSchema: z.object({ ...domainArguments, ...cacheArguments }),
+    handler: async ({ domain, bypassCache }, { client }) => {
+      const result = await client.getCallQueues(domain, { bypassCache });
+      return {
+        message: `Retrieved ${result.data?.length || 0} call queues for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_call_queue',
+    description: 'Get details of a specific call queue',
+    inputSchema: z.object(queueArguments),
+    handler: async ({ domain, queueId }, { client }) => {
+      const result = await client.getCallQueue(domain, queueId);
+      return {
+        message: `Retrieved call queue details for ${queueId}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_call_queue_agents',
+    description: 'Get agents assigned to a call queue',
+    inputSchema: z.object(queueArguments),
+    handler: async ({ domain, queueId }, { client }) => {
+      const result = await client.getCallQueueAgents(domain, queueId);
+      return {
+        message: `Retrieved ${result.data?.length || 0} agents for call queue ${queueId}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_agents',
+    description: 'Get agents for a domain',
+    inputSchema: z.object(domainArguments),
+    handler: async ({ domain }, { client }) => {
+      const result = await client.getAgents(domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} agents for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'login_agent',
+    category: 'write',
+    target: ({ queueId, agentId }) => `callqueue ${queueId} agent ${agentId}`,
+    currentState: getQueueAgent,
+    expectedState: (agent) => ({ ...agent, login_status: 'logged_in' }),
+    description: 'Login an agent to a call queue',
+    inputSchema: z.object(agentArguments),
+    handler: async ({ domain, queueId, agentId }, { client }) => {
+      const result = await client.loginAgent(domain, queueId, agentId);
+      return {
+        message: result.message || 'Agent logged in successfully',
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'logout_agent',
+    category: 'write',
+    target: ({ queueId, agentId }) => `callqueue ${queueId} agent ${agentId}`,
+    currentState: getQueueAgent,
+    expectedState: (agent) => ({ ...agent, login_status: 'logged_out' }),
+    description: 'Logout an agent from a call queue',
+    inputSchema: z.object(agentArguments),
+    handler: async ({ domain, queueId, agentId }, { client }) => {
+      const result = await client.logoutAgent(domain, queueId, agentId);
+      return {
+        message: result.message || 'Agent logged out successfully',
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_call_queue',
+    category: 'write',
+    description: 'Create a call queue with its strategy, maximum wait, music on hold, overflow destination and wrap-up time',
+    inputSchema: z.object({
+      ...domainArguments,
+      queueId: z.string().regex(/^\d{2,7}$/, 'must be 2 to 7 digits').describe('Call queue ID (its extension)'),
+      ...queueFieldArguments,
+      name: z.string().min(1).describe('Queue name')
+    }),
+    target: ({ queueId }) => `callqueue ${queueId}`,
+    currentState: async () => null,
+    expectedState: (_current, { domain, queueId, ...fields }) => ({ callqueue: queueId, domain, ...toCallQueueFields(fields) }),
+    handler: async ({ domain, queueId, ...fields }, { client }) => {
+      const queues = await client.getCallQueues(domain, { bypassCache: true });
+      if (queues.data?.some((queue) => queue.callqueue === queueId)) {
+        throw new McpError(ErrorCode.InvalidParams, `Call queue ${queueId} already exists in domain ${domain}; use update_call_queue instead`);
+      }
+
+      const result = await client.createCallQueue(domain, queueId, toCallQueueFields(fields));
+      return {
+        message: `Created call queue ${queueId} in domain ${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_call_queue',
+    category: 'write',
+    description: 'Change some of a call queue\'s settings. Fields that are not given are left unchanged.',
+    inputSchema: z.object({
+      ...queueArguments,
+      ...queueFieldArguments
+    }),
+    target: ({ queueId }) => `callqueue ${queueId}`,
+    currentState: getCurrentQueue,
+    expectedState: (current, { domain, queueId, ...fields }) => ({ ...current, ...toCallQueueFields(fields) }),
+    handler: async ({ domain, queueId, ...fields }, { client }) => {
+      const changes = toCallQueueFields(fields);
+      if (Object.keys(changes).length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_call_queue needs at least one field to change');
+      }
+
+      await client.getCallQueue(domain, queueId);
+      const result = await client.updateCallQueue(domain, queueId, changes);
+      return {
+        message: `Updated call queue ${queueId} in domain ${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_call_queue',
+    category: 'write',
+    description: 'Delete a call queue. Its agents are removed from it; phone numbers and auto attendant options routed to it stop working.',
+    inputSchema: z.object(queueArguments),
+    target: ({ queueId }) => `callqueue ${queueId}`,
+    currentState: getCurrentQueue,
+    expectedState: () => null,
+    handler: async ({ domain, queueId }, { client }) => {
+      await client.getCallQueue(domain, queueId);
+      const result = await client.deleteCallQueue(domain, queueId);
+      return {
+        message: `Deleted call queue ${queueId} from domain ${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'add_call_queue_agent',
+    category: 'write',
+    description: 'Add a user to a call queue as an agent, with their hunt priority and per-queue settings',
+    inputSchema: z.object({
+      ...agentArguments,
+      ...queueAgentFieldArguments
+    }),
+    target: ({ queueId, agentId }) => `callqueue ${queueId} agent ${agentId}`,
+    currentState: async () => null,
+    expectedState: (_current, { domain, agentId, queueId, ...fields }) => ({ agent: agentId, domain, ...toQueueAgentFields(fields) }),
+    handler: async ({ domain, queueId, agentId, ...fields }, { client }) => {
+      // Both fail with not_found, before anything is sent, if the queue or user does not exist
+      await client.getCallQueue(domain, queueId);
+      await client.getUser(agentId, domain);
+      const members = await client.getCallQueueAgents(domain, queueId);
+      if (members.data?.some((member) => member.agent === agentId)) {
+        throw new McpError(ErrorCode.InvalidParams, `Agent ${agentId} is already in call queue ${queueId}; use update_call_queue_agent instead`);
+      }
+
+      const result = await client.addCallQueueAgent(domain, queueId, agentId, toQueueAgentFields(fields));
+      return {
+        message: `Added agent ${agentId} to call queue ${queueId}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_call_queue_agent',
+    category: 'write',
+    description: 'Change an agent\'s priority or settings in one call queue',
+    inputSchema: z.object({
+      ...agentArguments,
+      ...queueAgentFieldArguments
+    }),
+    target: ({ queueId, agentId }) => `callqueue ${queueId} agent ${agentId}`,
+    currentState: getQueueAgent,
+    expectedState: (agent, { domain, queueId, agentId, ...fields }) => ({ ...agent, ...toQueueAgentFields(fields) }),
+    handler: async ({ domain, queueId, agentId, ...fields }, context) => {
+      const changes = toQueueAgentFields(fields);
+      if (Object.keys(changes).length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_call_queue_agent needs at least one field to change');
+      }
+
+      await getQueueAgent({ domain, queueId, agentId }, context);
+      const result = await context.client.updateCallQueueAgent(domain, queueId, agentId, changes);
+      return {
+        message: `Updated agent ${agentId} in call queue ${queueId}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'remove_call_queue_agent',
+    category: 'write',
+    description: 'Remove an agent from a call queue',
+    inputSchema: z.object(agentArguments),
+    target: ({ queueId, agentId }) => `callqueue ${queueId} agent ${agentId}`,
+    currentState: getQueueAgent,
+    expectedState: () => null,
+    handler: async ({ domain, queueId, agentId }, context) => {
+      await getQueueAgent({ domain, queueId, agentId }, context);
+      const result = await context.client.removeCallQueueAgent(domain, queueId, agentId);
+      return {
+        message: `Removed agent ${agentId} from call queue ${queueId}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'set_agent_status',
+    category: 'write',
+    description: 'Set an agent\'s status (available, break, lunch, meeting, training or offline) with an optional reason code, ' +
+      'logging them in to or out of all their queues, or the queues given. Reports the result in each queue.',
+    inputSchema: z.object({
+      ...domainArguments,
+      agentId: z.string().min(1).describe('Agent ID'),
+      ...agentStatusArguments
+    }),
+    target: ({ agentId }) => `agent ${agentId}`,
+    currentState: async ({ domain, agentId, queueIds }, { client }) => (await loadAgentStatus(client, domain))(agentId, queueIds),
+    expectedState: (current, { status, reason }) => toExpectedStatus(current, status, reason),
+    handler: async ({ domain, agentId, status, reason, queueIds }, { client }) => {
+      const current = (await loadAgentStatus(client, domain))(agentId, queueIds);
+      const result = await applyAgentStatus(client, domain, agentId, current, status, reason);
+      const failed = countFailures(result.results);
+      return {
+        success: failed === 0,
+        message: `Set agent ${agentId} to ${status} in ${result.results.length} call queues` +
+          (failed > 0 ? `; ${failed} queue${failed === 1 ? '' : 's'} failed` : ''),
+        data: result
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'bulk_agent_status',
+    category: 'write',
+    description: 'Set several agents\' status at once, e.g. put a team on lunch or log everyone back in, ' +
+      'logging each in to or out of all their queues, or the queues given. Reports the result per agent and queue.',
+    inputSchema: z.object({
+      ...domainArguments,
+      agentIds: z.array(z.string().min(1)).min(1).max(100).describe('Agent IDs'),
+      ...agentStatusArguments,
+      queueIds: agentStatusArguments.queueIds.describe('Queues to change for every agent (default: each agent\'s own queues)')
+    }),
+    target: ({ agentIds }) => `agents ${agentIds.join(', ')}`,
+    currentState: async ({ domain, agentIds, queueIds }, { client }) => {
+      const getState = await loadAgentStatus(client, domain);
+      return Object.fromEntries(agentIds.map((agentId) => [agentId, getState(agentId, queueIds)]));
+    },
+    expectedState: (current: Record<string, AgentStatusState>, { status, reason }) =>
+      Object.fromEntries(Object.entries(current).map(([agentId, state]) => [agentId, toExpectedStatus(state, status, reason)])),
+    handler: async ({ domain, agentIds, status, reason, queueIds }, { client }) => {
+      // Every agent is checked before any is changed
+      const getState = await loadAgentStatus(client, domain);
+      const current = [...new Set(agentIds)].map((agentId) => ({ agentId, state: getState(agentId, queueIds) }));
+
+      const agents = [];
+      for (const { agentId, state } of current) {
+        try {
+          agents.push(await applyAgentStatus(client, domain, agentId, state, status, reason));
+        } catch (error) {
+          agents.push({ agent: agentId, ...state, results: [], error: describeFailure(error) });
+        }
+      }
+
+      const failed = agents.filter((agent) => 'error' in agent || countFailures(agent.results) > 0);
+      return {
+        success: failed.length === 0,
+        message: `Set ${agents.length - failed.length} of ${agents.length} agents to ${status}` +
+          (failed.length > 0 ? `; failed for ${failed.map((agent) => agent.agent).join(', ')}` : ''),
+        data: { status, reason: reason ?? '', agents }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_agent_statistics',
+    description: 'Get agent statistics for a domain',
+    inputSchema: z.object({
+      ...domainArguments,
+      agentId: z.string().optional().describe('Optional specific agent ID')
+    }),
+    handler: async ({ domain, agentId }, { client }) => {
+      const result = await client.getAgentStatistics(domain, agentId);
+      return {
+        message: `Retrieved agent statistics for domain ${domain}${agentId ? ` (agent: ${agentId})` : ''}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  })
+];
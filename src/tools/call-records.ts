@@ -0,0 +1,44 @@
+/**
+ * Call detail record (CDR) tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { domainName } from './domains.js';
+import { defineTool, describeMore, pagingArguments } from './registry.js';
+
+export const callRecordTools = [
+  defineTool({
+    name: 'get_cdr_records',
+    description: 'Retrieve call detail records (CDR)',
+    inputSchema: z.object({
+      startDate: z.string().optional().describe('Start date for CDR search (YYYY-MM-DD format)'),
+      endDate: z.string().optional().describe('End date for CDR search (YYYY-MM-DD format)'),
+      user: z.string().optional().describe('Specific user to get CDR records for'),
+      domain: domainName.optional().describe('Domain to search in (required if user is specified)'),
+      ...pagingArguments(100)
+    }),
+    handler: async ({ startDate, endDate, user, domain, limit, page, pageToken, fetchAll }, { client }) => {
+      if (user && !domain) {
+        throw new McpError(ErrorCode.InvalidParams, 'domain parameter is required when user is specified');
+      }
+
+      const result = await client.getCDRRecords({
+        startDate,
+        endDate,
+        user,
+        domain,
+        limit,
+        page,
+        pageToken,
+        fetchAll
+      });
+      return {
+        message: `Retrieved ${result.data?.length || 0} CDR records${describeMore(result.pagination)}`,
+        data: result.data,
+        pagination: result.pagination,
+        warnings: result.warnings
+      };
+    }
+  })
+];
@@ -0,0 +1,446 @@
+/**
+ * Device and MAC-based phone provisioning tools
+ */
+
+import { randomBytes } from 'node:crypto';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensNotFoundError } from '../errors.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { PolicyError } from '../policy.js';
+import { NetSapiensDevice, NetSapiensDeviceModel, NetSapiensLineKey, NetSapiensPhone, NetSapiensPhoneFields } from '../types/config.js';
+import { domainArguments } from './domains.js';
+import { defineTool, ToolContext } from './registry.js';
+import { userArguments } from './users.js';
+
+const deviceArguments = {
+  ...userArguments,
+  device: z
+    .string()
+    .regex(/^sip:[\w.-]+@[\w.-]+$/, 'must be a SIP device name like sip:100a@acme.example')
+    .describe('SIP device name, e.g. sip:100a@acme.example')
+};
+
+const includeCredentials = z
+  .boolean()
+  .default(false)
+  .describe('Return the SIP password; refused unless the server policy sets revealSipCredentials');
+
+const sipPassword = z.string().min(12).describe('SIP registration password');
+
+// Accepted with ":" or "-" separators or none; NetSapiens stores lowercase colon-separated pairs
+const macAddress = z
+  .string()
+  .regex(/^[0-9a-f]{2}([:-]?[0-9a-f]{2}){5}$/i, 'must be a MAC address such as 00:04:f2:aa:bb:01')
+  .transform((value) => (value.replace(/[:-]/g, '').toLowerCase().match(/../g) as string[]).join(':'))
+  .refine((value) => value !== '00:00:00:00:00:00' && value !== 'ff:ff:ff:ff:ff:ff', 'must be a phone\'s own MAC address')
+  .describe('MAC address, e.g. 00:04:f2:aa:bb:01');
+
+const phoneArguments = {
+  ...domainArguments,
+  mac: macAddress
+};
+
+const lineKey = z
+  .object({
+    key: z.number().int().min(1).describe('Key number, starting at 1'),
+    type: z.enum(['line', 'blf', 'speed_dial']).describe('line registers a SIP device, blf shows a user\'s status, speed_dial dials a number'),
+    device: z.string().regex(/^sip:[\w.-]+@[\w.-]+$/, 'must be a SIP device name').optional().describe('SIP device, for line keys'),
+    destination: z.string().min(1).optional().describe('User ID (blf) or number (speed_dial)'),
+    label: z.string().min(1).max(20).optional().describe('Text shown next to the key')
+  })
+  .refine((key) => (key.type === 'line' ? key.device !== undefined : key.destination !== undefined), {
+    message: 'line keys need a device; blf and speed_dial keys need a destination'
+  });
+
+const phoneFieldArguments = {
+  model: z.string().min(1).describe('Phone model, e.g. Poly VVX 450; see get_device_models'),
+  template: z.string().min(1).optional().describe('Provisioning template (default: the model\'s first template)'),
+  lineKeys: z.array(lineKey).min(1).describe('Every programmable key; at least one must be a line')
+};
+
+// Generated passwords are returned only when asked for and allowed, and never logged
+const generateSipPassword = () => randomBytes(18).toString('base64url');
+
+/**
+ * Throw a PolicyError unless the policy lets tools return SIP passwords; checked before anything is changed
+ */
+function assertCredentialsAllowed(tool: string, { sipCredentialsAllowed }: ToolContext): void {
+  if (!sipCredentialsAllowed) {
+    throw new PolicyError(`Tool ${tool} cannot return SIP credentials: disabled by policy (policy.revealSipCredentials)`, tool, 'credentials');
+  }
+}
+
+const withoutCredentials = (device?: NetSapiensDevice) => {
+  if (!device) {
+    return device;
+  }
+  const { sip_password, ...rest } = device;
+  return rest;
+};
+
+const getCurrentDevice = async ({ domain, userId, device }: { domain: string; userId: string; device: string }, { client }: ToolContext) =>
+  withoutCredentials((await client.getDevice(domain, userId, device)).data);
+
+const getCurrentPhone = async ({ domain, mac }: { domain: string; mac: string }, { client }: ToolContext) =>
+  (await client.getPhone(domain, mac)).data;
+
+/**
+ * Look up a phone model in the provisioning catalog
+ */
+async function findModel(client: NetSapiensClient, model: string): Promise<NetSapiensDeviceModel> {
+  const models = ((await client.getDeviceModels()).data || []).filter(
+    (candidate): candidate is NetSapiensDeviceModel => candidate != null && typeof candidate.model === 'string'
+  );
+  const found = models.find((candidate) => candidate.model.toLowerCase() === model.toLowerCase());
+  if (!found) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown phone model ${model}; supported models: ${models.map((candidate) => candidate.model).join(', ')}`
+    );
+  }
+  return found;
+}
+
+/**
+ * The template to provision a model with: the one given, which must suit the model, or the model's first
+ */
+function resolveTemplate(model: NetSapiensDeviceModel, template?: string): string | undefined {
+  const templates = model.templates || [];
+  if (template === undefined) {
+    return templates[0];
+  }
+  if (templates.length > 0 && !templates.includes(template)) {
+    throw new McpError(ErrorCode.InvalidParams, `Template ${template} does not work with ${model.model}; use one of ${templates.join(', ')}`);
+  }
+  return template;
+}
+
+/**
+ * Reject line keys the model doesn't have, keys assigned twice, and keys pointing at devices or
+ * users that don't exist in the domain; every problem is listed at once
+ */
+async function assertLineKeys(client: NetSapiensClient, domain: string, model: NetSapiensDeviceModel, lineKeys: NetSapiensLineKey[]): Promise<void> {
+  const problems: string[] = [];
+  if (!lineKeys.some((key) => key.type === 'line')) {
+    problems.push('at least one key must be a line');
+  }
+
+  const devices = new Set<string>();
+  if (lineKeys.some((key) => key.type === 'line')) {
+    for (const device of (await client.getDevices(domain)).data || []) {
+      if (typeof device?.device === 'string') {
+        devices.add(device.device);
+      }
+    }
+  }
+  const users = new Set<string>();
+  if (lineKeys.some((key) => key.type === 'blf')) {
+    for await (const user of client.iterateDomainUsers(domain)) {
+      if (typeof user?.user === 'string') {
+        users.add(user.user);
+      }
+    }
+  }
+  const seen = new Set<number>();
+  for (const key of lineKeys) {
+    const label = `key ${key.key}`;
+    if (seen.has(key.key)) {
+      problems.push(`${label} is assigned more than once`);
+    }
+    seen.add(key.key);
+    if (model.line_keys !== undefined && key.key > model.line_keys) {
+      problems.push(`${label}: the ${model.model} has ${model.line_keys} line keys`);
+    }
+
+    if (key.type === 'line' && !devices.has(key.device as string)) {
+      problems.push(`${label}: device ${key.device} does not exist in domain ${domain}`);
+    } else if (key.type === 'blf' && !users.has(key.destination as string)) {
+      problems.push(`${label}: user ${key.destination} does not exist in domain ${domain}`);
+    } else if (key.type === 'speed_dial' && !/^\+?\d{2,15}$/.test(key.destination as string)) {
+      problems.push(`${label}: speed dial destination must be an extension or phone number`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid line keys: ${problems.join('; ')}`);
+  }
+}
+
+// Line keys are sorted by key number so previews and stored entries read top to bottom
+const sortKeys = (lineKeys: NetSapiensLineKey[]) => [...lineKeys].sort((a, b) => a.key - b.key);
+
+export const deviceTools = [
+  defineTool({
+    name: 'get_device',
+    description: 'Get one of a user\'s SIP devices. The SIP password is only returned when includeCredentials is set and the server policy allows it.',
+    inputSchema: z.object({
+      ...deviceArguments,
+      includeCredentials
+    }),
+    handler: async ({ domain, userId, device, includeCredentials }, context) => {
+      if (includeCredentials) {
+        assertCredentialsAllowed('get_device', context);
+      }
+      const result = await context.client.getDevice(domain, userId, device);
+      return {
+        message: `Retrieved device ${device} for user ${userId}@${domain}`,
+        data: includeCredentials ? result.data : withoutCredentials(result.data),
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_device',
+    category: 'write',
+    description: 'Create a SIP device for a user, e.g. for a new desk phone. A SIP password is generated when not given; ' +
+      'it is returned only when includeCredentials is set and the server policy allows it.',
+    inputSchema: z.object({
+      ...deviceArguments,
+      model: z.string().min(1).optional().describe('Phone model, e.g. Poly VVX 450; see get_device_models'),
+      sipPassword: sipPassword.optional(),
+      includeCredentials
+    }),
+    target: ({ device }) => `device ${device}`,
+    currentState: async () => null,
+    expectedState: (_current, { domain, userId, device, model }) => ({ device, user: userId, domain, ...(model ? { model } : {}) }),
+    handler: async ({ domain, userId, device, model, sipPassword, includeCredentials }, context) => {
+      const { client } = context;
+      if (includeCredentials) {
+        assertCredentialsAllowed('create_device', context);
+      }
+      if (!device.endsWith(`@${domain}`)) {
+        throw new McpError(ErrorCode.InvalidParams, `Device ${device} must be in domain ${domain}, e.g. sip:${userId}a@${domain}`);
+      }
+      await client.getUser(userId, domain);
+      if ((await client.getDevices(domain)).data?.some((existing) => existing?.device === device)) {
+        throw new McpError(ErrorCode.InvalidParams, `Device ${device} already exists in domain ${domain}`);
+      }
+      const catalogModel = model ? (await findModel(client, model)).model : undefined;
+
+      const password = sipPassword ?? generateSipPassword();
+      const result = await client.createDevice(domain, userId, device, { model: catalogModel, sip_password: password });
+      return {
+        message: `Created device ${device} for user ${userId}@${domain}` +
+          (includeCredentials ? '; the SIP password is shown only once, share it securely' : ''),
+        data: {
+          device: withoutCredentials(result.data),
+          sipCredentials: includeCredentials ? { device, password } : undefined
+        }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_device',
+    category: 'write',
+    description: 'Change a SIP device\'s model, or set or regenerate its SIP password. ' +
+      'A new password is returned only when includeCredentials is set and the server policy allows it.',
+    inputSchema: z.object({
+      ...deviceArguments,
+      model: z.string().min(1).optional().describe('Phone model, e.g. Poly VVX 450; see get_device_models'),
+      sipPassword: sipPassword.optional(),
+      resetSipPassword: z.boolean().default(false).describe('Generate a new SIP password; the phone must be reprovisioned to register again'),
+      includeCredentials
+    }),
+    target: ({ device }) => `device ${device}`,
+    currentState: getCurrentDevice,
+    expectedState: (current, { model }) => ({ ...current, ...(model ? { model } : {}) }),
+    handler: async ({ domain, userId, device, model, sipPassword, resetSipPassword, includeCredentials }, context) => {
+      const { client } = context;
+      if (includeCredentials) {
+        assertCredentialsAllowed('update_device', context);
+      }
+      const password = sipPassword ?? (resetSipPassword ? generateSipPassword() : undefined);
+      if (model === undefined && password === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_device needs a model, sipPassword or resetSipPassword');
+      }
+      await client.getDevice(domain, userId, device);
+      const catalogModel = model ? (await findModel(client, model)).model : undefined;
+
+      const result = await client.updateDevice(domain, userId, device, { model: catalogModel, sip_password: password });
+      return {
+        message: `Updated device ${device} for user ${userId}@${domain}` +
+          (password && !includeCredentials ? '; pass includeCredentials to get_device to read the new SIP password' : ''),
+        data: {
+          device: withoutCredentials(result.data),
+          sipCredentials: includeCredentials && password ? { device, password } : undefined
+        }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_device',
+    category: 'write',
+    description: 'Delete a SIP device. Refused while a provisioned phone still has the device on a line key.',
+    inputSchema: z.object(deviceArguments),
+    target: ({ device }) => `device ${device}`,
+    currentState: getCurrentDevice,
+    expectedState: () => null,
+    handler: async ({ domain, userId, device }, { client }) => {
+      await client.getDevice(domain, userId, device);
+      const phones = ((await client.getPhones(domain)).data || []).filter((phone): phone is NetSapiensPhone => phone != null);
+      const uses = phones.flatMap((phone) =>
+        (Array.isArray(phone.line_keys) ? phone.line_keys : [])
+          .filter((key) => key?.type === 'line' && key.device === device)
+          .map((key) => `key ${key.key} of phone ${phone.mac}`)
+      );
+      if (uses.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Device ${device} is on ${uses.join(', ')}; update or delete the phone first`);
+      }
+
+      const result = await client.deleteDevice(domain, userId, device);
+      return {
+        message: `Deleted device ${device} from user ${userId}@${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_device_models',
+    description: 'List the phone models that can be provisioned by MAC address, with their templates and number of line keys',
+    inputSchema: z.object({}),
+    handler: async (_args, { client }) => {
+      const result = await client.getDeviceModels();
+      return {
+        message: `Retrieved ${result.data?.length || 0} phone models`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_provisioned_phones',
+    description: 'List a domain\'s MAC-based provisioning entries: the model, template and line keys each desk phone is configured with',
+    inputSchema: z.object(domainArguments),
+    handler: async ({ domain }, { client }) => {
+      const result = await client.getPhones(domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} provisioned phones for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_provisioned_phone',
+    description: 'Get the provisioning entry for one MAC address',
+    inputSchema: z.object(phoneArguments),
+    handler: async ({ domain, mac }, { client }) => {
+      const result = await client.getPhone(domain, mac);
+      return {
+        message: `Retrieved provisioned phone ${mac} for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_provisioned_phone',
+    category: 'write',
+    description: 'Provision a desk phone by MAC address with a model, template and line keys. ' +
+      'The template must suit the model, the model must have every key, and line devices and BLF users must exist.',
+    inputSchema: z.object({
+      ...phoneArguments,
+      ...phoneFieldArguments
+    }),
+    target: ({ mac }) => `phone ${mac}`,
+    currentState: async () => null,
+    expectedState: (_current, { domain, mac, model, template, lineKeys }) =>
+      ({ mac, domain, model, ...(template ? { template } : {}), line_keys: sortKeys(lineKeys) }),
+    handler: async ({ domain, mac, model, template, lineKeys }, { client }) => {
+      try {
+        await client.getPhone(domain, mac);
+        throw new McpError(ErrorCode.InvalidParams, `Phone ${mac} is already provisioned in domain ${domain}; use update_provisioned_phone instead`);
+      } catch (error) {
+        if (!(error instanceof NetSapiensNotFoundError)) {
+          throw error;
+        }
+      }
+      const catalogModel = await findModel(client, model);
+      const fields: NetSapiensPhoneFields = {
+        model: catalogModel.model,
+        template: resolveTemplate(catalogModel, template),
+        line_keys: sortKeys(lineKeys)
+      };
+      await assertLineKeys(client, domain, catalogModel, lineKeys);
+
+      const result = await client.createPhone(domain, mac, fields);
+      return {
+        message: `Provisioned phone ${mac} in domain ${domain} as a ${catalogModel.model} with ${lineKeys.length} line keys`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_provisioned_phone',
+    category: 'write',
+    description: 'Change a provisioned phone\'s model, template or line keys; a lineKeys list replaces every key. ' +
+      'The result is checked like create_provisioned_phone.',
+    inputSchema: z.object({
+      ...phoneArguments,
+      model: phoneFieldArguments.model.optional(),
+      template: phoneFieldArguments.template,
+      lineKeys: phoneFieldArguments.lineKeys.optional()
+    }),
+    target: ({ mac }) => `phone ${mac}`,
+    currentState: getCurrentPhone,
+    expectedState: (current, { model, template, lineKeys }) => ({
+      ...current,
+      ...(model ? { model } : {}),
+      ...(template ? { template } : {}),
+      ...(lineKeys ? { line_keys: sortKeys(lineKeys) } : {})
+    }),
+    handler: async ({ domain, mac, model, template, lineKeys }, { client }) => {
+      if (model === undefined && template === undefined && lineKeys === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_provisioned_phone needs a model, template or lineKeys');
+      }
+      const current = (await client.getPhone(domain, mac)).data as NetSapiensPhone;
+      const catalogModel = await findModel(client, model ?? (current.model as string));
+      // A new model keeps the current template only when the template suits it
+      const keepTemplate = current.template && (catalogModel.templates || []).includes(current.template) ? current.template : undefined;
+      const nextTemplate = template !== undefined
+        ? resolveTemplate(catalogModel, template)
+        : model ? keepTemplate ?? resolveTemplate(catalogModel) : current.template;
+      await assertLineKeys(client, domain, catalogModel, lineKeys ?? current.line_keys ?? []);
+
+      const fields: NetSapiensPhoneFields = Object.fromEntries(
+        Object.entries({
+          model: model && catalogModel.model,
+          template: nextTemplate !== current.template ? nextTemplate : undefined,
+          line_keys: lineKeys && sortKeys(lineKeys)
+        }).filter(([, value]) => value !== undefined)
+      );
+      const result = await client.updatePhone(domain, mac, fields);
+      return {
+        message: `Updated provisioned phone ${mac} in domain ${domain}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_provisioned_phone',
+    category: 'write',
+    description: 'Delete the provisioning entry for a MAC address. The phone keeps its configuration until it is reset.',
+    inputSchema: z.object(phoneArguments),
+    target: ({ mac }) => `phone ${mac}`,
+    currentState: getCurrentPhone,
+    expectedState: () => null,
+    handler: async ({ domain, mac }, { client }) => {
+      await client.getPhone(domain, mac);
+      const result = await client.deletePhone(domain, mac);
+      return {
+        message: `Deleted provisioned phone ${mac} from domain ${domain}`,
+        data: result.data
+      };
+    }
+  })
+];
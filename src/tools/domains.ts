@@ -0,0 +1,59 @@
+/**
+ * Domain administration tools
+ */
+
+import { z } from 'zod';
+import { cacheArguments, defineTool, describeMore, pagingArguments } from './registry.js';
+
+/**
+ * A domain as NetSapiens names it: DNS labels, compared lowercase and without a trailing dot.
+ * Anything else, e.g. "/", "?", "%" or an empty label, is rejected before it reaches a URL or the policy.
+ */
+export const domainName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(254)
+  .regex(/^[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?(?:\.[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?)*\.?$/, 'must be a domain name, e.g. acme.example')
+  .transform((value) => value.replace(/\.$/, ''));
+
+export const domainArguments = {
+  domain: domainName.describe('Domain name')
+};
+
+export const domainTools = [
+  defineTool({
+    name: 'get_domains',
+    description: 'Get list of domains in the NetSapiens system',
+    inputSchema: z.object({
+      ...pagingArguments(100),
+      ...cacheArguments
+    }),
+    handler: async ({ limit, page, pageToken, fetchAll, bypassCache }, { client }) => {
+      const result = await client.getDomains({ limit, page, pageToken, fetchAll, bypassCache });
+      return {
+        message: `Retrieved ${result.data?.length || 0} domains${describeMore(result.pagination)}`,
+        data: result.data,
+        pagination: result.pagination,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_domain',
+    description: 'Get detailed information about a specific domain',
+    inputSchema: z.object({
+      domain: domainName.describe('Domain name to retrieve information for'),
+      ...cacheArguments
+    }),
+    handler: async ({ domain, bypassCache }, { client }) => {
+      const result = await client.getDomain(domain, { bypassCache });
+      return {
+        message: `Retrieved domain information for ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  })
+];
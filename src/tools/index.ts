@@ -0,0 +1,37 @@
+/**
+ * Tool modules for OITVOIP MCP Server, grouped by subsystem
+ */
+
+import { answerRuleTools } from './answer-rules.js';
+import { auditTools } from './audit.js';
+import { autoAttendantTools } from './auto-attendants.js';
+import { billingTools } from './billing.js';
+import { callCenterTools } from './call-center.js';
+import { callRecordTools } from './call-records.js';
+import { deviceTools } from './devices.js';
+import { domainTools } from './domains.js';
+import { mediaTools } from './media.js';
+import { phoneNumberTools } from './phone-numbers.js';
+import { ToolDefinition } from './registry.js';
+import { systemTools } from './system.js';
+import { timeframeTools } from './timeframes.js';
+import { userTools } from './users.js';
+
+export const allTools: ToolDefinition<any>[] = [
+  ...userTools,
+  ...deviceTools,
+  ...callRecordTools,
+  ...domainTools,
+  ...phoneNumberTools,
+  ...callCenterTools,
+  ...autoAttendantTools,
+  ...answerRuleTools,
+  ...timeframeTools,
+  ...mediaTools,
+  ...billingTools,
+  ...systemTools,
+  ...auditTools
+];
+
+export { previewTool, ToolRegistry, toCallToolResult } from './registry.js';
+export type { ResolvedCall, ToolContext, ToolDefinition, ToolOutput } from './registry.js';
@@ -0,0 +1,52 @@
+/**
+ * Greeting, voicemail and music on hold tools
+ */
+
+import { z } from 'zod';
+import { domainArguments } from './domains.js';
+import { cacheArguments, defineTool } from './registry.js';
+import { userArguments } from './users.js';
+
+export const mediaTools = [
+  defineTool({
+    name: 'get_user_greetings',
+    description: 'Get greetings for a user',
+    inputSchema: z.object(userArguments),
+    handler: async ({ userId, domain }, { client }) => {
+      const result = await client.getUserGreetings(userId, domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} greetings for user ${userId}@${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_user_voicemails',
+    description: 'Get voicemails for a user',
+    inputSchema: z.object(userArguments),
+    handler: async ({ userId, domain }, { client }) => {
+      const result = await client.getUserVoicemails(userId, domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} voicemails for user ${userId}@${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_music_on_hold',
+    description: 'Get music on hold files for a domain',
+    inputSchema: z.object({ ...domainArguments, ...cacheArguments }),
+    handler: async ({ domain, bypassCache }, { client }) => {
+      const result = await client.getMusicOnHold(domain, { bypassCache });
+      return {
+        message: `Retrieved ${result.data?.length || 0} music on hold files for domain ${domain}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  })
+];
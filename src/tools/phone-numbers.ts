@@ -0,0 +1,220 @@
+/**
+ * Phone number (DID) tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensNotFoundError } from '../errors.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { NetSapiensPhoneNumber, NetSapiensPhoneNumberFields, NetSapiensPhoneNumberRouting } from '../types/config.js';
+import { domainArguments } from './domains.js';
+import { defineTool, describeMore, pagingArguments, ToolContext } from './registry.js';
+
+const phoneNumberArguments = {
+  ...domainArguments,
+  phoneNumber: z.string().regex(/^\+?\d{10,15}$/, 'must be a 10 to 15 digit phone number').describe('Phone number (DID)')
+};
+
+const routeArguments = {
+  routing: z
+    .enum(['user', 'callqueue', 'autoattendant', 'conference', 'external'])
+    .describe('Kind of destination: user, callqueue, autoattendant, conference or external'),
+  destination: z.string().min(1).describe('User ID, call queue ID, auto attendant ID, conference ID, or the external number'),
+  description: z.string().optional().describe('Description, e.g. "Main line"')
+};
+
+const toPhoneNumberFields = ({ routing, destination, description }: z.infer<z.ZodObject<typeof routeArguments>>): NetSapiensPhoneNumberFields =>
+  Object.fromEntries(
+    Object.entries({
+      routing,
+      destination,
+      // user is what older NetSapiens clients read for numbers routed to a user
+      user: routing === 'user' ? destination : '',
+      description
+    }).filter(([, value]) => value !== undefined)
+  );
+
+// Numbers routed to a user from before destination was stored only carry the user
+const getDestination = (number?: NetSapiensPhoneNumber) => number?.destination ?? (number?.routing === 'user' ? number.user : undefined);
+
+/**
+ * Why calls routed to a destination would fail, or undefined when it exists in the domain
+ */
+export async function findDestinationProblem(
+  client: NetSapiensClient,
+  domain: string,
+  routing: NetSapiensPhoneNumberRouting,
+  destination: string
+): Promise<string | undefined> {
+  const missing = (what: string) => `${what} ${destination} does not exist in domain ${domain}`;
+  try {
+    switch (routing) {
+      case 'user':
+        await client.getUser(destination, domain);
+        return undefined;
+      case 'callqueue':
+        await client.getCallQueue(domain, destination);
+        return undefined;
+      case 'autoattendant':
+        return (await client.getAutoAttendants(domain)).data?.some((attendant) => attendant?.attendant === destination)
+          ? undefined
+          : missing('Auto attendant');
+      case 'conference':
+        return (await client.getConferences(domain)).data?.some((conference) => conference?.conference === destination)
+          ? undefined
+          : missing('Conference');
+      case 'external':
+        return /^\+?\d{10,15}$/.test(destination) ? undefined : 'An external destination must be a 10 to 15 digit phone number';
+    }
+  } catch (error) {
+    if (error instanceof NetSapiensNotFoundError) {
+      return missing(routing === 'user' ? 'User' : 'Call queue');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reject a destination that doesn't exist in the domain; NetSapiens would accept it and drop the calls
+ */
+async function assertDestination(client: NetSapiensClient, domain: string, routing: NetSapiensPhoneNumberRouting, destination: string) {
+  const problem = await findDestinationProblem(client, domain, routing, destination);
+  if (problem) {
+    throw new McpError(ErrorCode.InvalidParams, problem);
+  }
+}
+
+/**
+ * Warn when a number moving away from its destination is the only one routed there,
+ * e.g. releasing the main line leaves the auto attendant unreachable from outside
+ */
+async function checkSoleRoute(client: NetSapiensClient, domain: string, number?: NetSapiensPhoneNumber): Promise<string[]> {
+  const destination = getDestination(number);
+  if (!number?.routing || number.routing === 'external' || !destination) {
+    return [];
+  }
+  for await (const other of client.iteratePhoneNumbers(domain)) {
+    if (other != null && other.phonenumber !== number.phonenumber && other.routing === number.routing && getDestination(other) === destination) {
+      return [];
+    }
+  }
+  return [`${number.phonenumber} was the only phone number routed to ${number.routing} ${destination}, which no longer has an inbound route`];
+}
+
+const getCurrentNumber = async ({ domain, phoneNumber }: { domain: string; phoneNumber: string }, { client }: ToolContext) =>
+  (await client.getPhoneNumber(domain, phoneNumber)).data;
+
+export const phoneNumberTools = [
+  defineTool({
+    name: 'get_phone_numbers',
+    description: 'Get phone numbers for a domain',
+    inputSchema: z.object({
+      ...domainArguments,
+      ...pagingArguments(100)
+    }),
+    handler: async ({ domain, limit, page, pageToken, fetchAll }, { client }) => {
+      const result = await client.getPhoneNumbers(domain, limit, { page, pageToken, fetchAll });
+      return {
+        message: `Retrieved ${result.data?.length || 0} phone numbers for domain ${domain}${describeMore(result.pagination)}`,
+        data: result.data,
+        pagination: result.pagination,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_phone_number',
+    description: 'Get details of a specific phone number',
+    inputSchema: z.object({
+      ...domainArguments,
+      phoneNumber: z.string().min(1).describe('Phone number to lookup')
+    }),
+    handler: async ({ domain, phoneNumber }, { client }) => {
+      const result = await client.getPhoneNumber(domain, phoneNumber);
+      return {
+        message: `Retrieved phone number details for ${phoneNumber}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'add_phone_number',
+    category: 'write',
+    description: 'Add a phone number (DID) to a domain and route it to a user, call queue, auto attendant, conference or external number. ' +
+      'The destination must exist in the domain.',
+    inputSchema: z.object({
+      ...phoneNumberArguments,
+      ...routeArguments
+    }),
+    target: ({ phoneNumber }) => `phonenumber ${phoneNumber}`,
+    currentState: async () => null,
+    expectedState: (_current, { domain, phoneNumber, ...route }) => ({ phonenumber: phoneNumber, domain, ...toPhoneNumberFields(route) }),
+    handler: async ({ domain, phoneNumber, ...route }, { client }) => {
+      try {
+        await client.getPhoneNumber(domain, phoneNumber);
+        throw new McpError(ErrorCode.InvalidParams, `Phone number ${phoneNumber} is already in domain ${domain}; use reassign_phone_number instead`);
+      } catch (error) {
+        if (!(error instanceof NetSapiensNotFoundError)) {
+          throw error;
+        }
+      }
+      await assertDestination(client, domain, route.routing, route.destination);
+
+      const result = await client.addPhoneNumber(domain, phoneNumber, toPhoneNumberFields(route));
+      return {
+        message: `Added phone number ${phoneNumber} to domain ${domain}, routed to ${route.routing} ${route.destination}`,
+        data: { phoneNumber: result.data, warnings: [] }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'reassign_phone_number',
+    category: 'write',
+    description: 'Route an existing phone number (DID) to a different destination. ' +
+      'Warns when the number was the only inbound route to its old destination.',
+    inputSchema: z.object({
+      ...phoneNumberArguments,
+      ...routeArguments
+    }),
+    target: ({ phoneNumber }) => `phonenumber ${phoneNumber}`,
+    currentState: getCurrentNumber,
+    expectedState: (current, { domain, phoneNumber, ...route }) => ({ ...current, ...toPhoneNumberFields(route) }),
+    handler: async ({ domain, phoneNumber, ...route }, { client }) => {
+      const current = (await client.getPhoneNumber(domain, phoneNumber)).data;
+      await assertDestination(client, domain, route.routing, route.destination);
+
+      const moved = current?.routing !== route.routing || getDestination(current) !== route.destination;
+      const warnings = moved ? await checkSoleRoute(client, domain, current) : [];
+      const result = await client.updatePhoneNumber(domain, phoneNumber, toPhoneNumberFields(route));
+      return {
+        message: `Routed phone number ${phoneNumber} to ${route.routing} ${route.destination}` +
+          (warnings.length > 0 ? `. Warning: ${warnings.join('; ')}` : ''),
+        data: { phoneNumber: result.data, warnings }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'release_phone_number',
+    category: 'write',
+    description: 'Release a phone number (DID) from a domain. Warns when it was the only inbound route to its destination.',
+    inputSchema: z.object(phoneNumberArguments),
+    target: ({ phoneNumber }) => `phonenumber ${phoneNumber}`,
+    currentState: getCurrentNumber,
+    expectedState: () => null,
+    handler: async ({ domain, phoneNumber }, { client }) => {
+      const current = (await client.getPhoneNumber(domain, phoneNumber)).data;
+      const warnings = await checkSoleRoute(client, domain, current);
+      const result = await client.releasePhoneNumber(domain, phoneNumber);
+      return {
+        message: `Released phone number ${phoneNumber} from domain ${domain}` +
+          (warnings.length > 0 ? `. Warning: ${warnings.join('; ')}` : ''),
+        data: { phoneNumber: result.data, warnings }
+      };
+    }
+  })
+];
@@ -0,0 +1,253 @@
+/**
+ * Declarative tool registry for OITVOIP MCP Server
+ * Each tool is defined once; its JSON Schema, argument validation and dispatch derive from that
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AuditLog } from '../audit.js';
+import { captureWrites, diff } from '../dry-run.js';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { PolicyTool, ToolCategory, ToolPolicy } from '../policy.js';
+import { NetSapiensPagination, NetSapiensSchemaWarning } from '../types/config.js';
+
+export interface ToolContext {
+  /** Client for the profile selected by the call */
+  client: NetSapiensClient;
+  /** Name of the selected profile */
+  profile: string;
+  /** Every configured profile */
+  profiles: ReadonlyMap<string, NetSapiensClient>;
+  defaultProfile: string;
+  /** Audit log of write tool calls, or null when auditing is disabled */
+  audit: AuditLog | null;
+  /** Whether the policy lets agents see this domain */
+  isDomainAllowed: (domain: string) => boolean;
+  /** Whether the policy lets tools return SIP passwords */
+  sipCredentialsAllowed: boolean;
+}
+
+export interface ToolOutput {
+  /** Defaults to true */
+  success?: boolean;
+  message: string;
+  data?: unknown;
+  pagination?: NetSapiensPagination;
+  warnings?: NetSapiensSchemaWarning[];
+  error?: unknown;
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  /** Whether the tool talks to a NetSapiens profile and accepts `profile` (default: true) */
+  usesProfile?: boolean;
+  /** Whether a policy's default domain fills in a missing `domain` (default: true); false where `domain` is an optional filter */
+  usesDefaultDomain?: boolean;
+  /** write for tools that change NetSapiens state (default: read); write calls are audited */
+  category?: ToolCategory;
+  /** Describe the object a write call acts on, for the audit log */
+  target?: (args: z.infer<S>) => string;
+  /** Read the current state of the object a write call changes; shown as `before` by dryRun */
+  currentState?: (args: z.infer<S>, context: ToolContext) => Promise<unknown>;
+  /** The state the call would leave behind, given the current state; shown as `after` by dryRun */
+  expectedState?: (current: any, args: z.infer<S>) => unknown;
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<ToolOutput>;
+}
+
+/** Validated call arguments, split from the arguments the registry adds to every tool */
+export interface ResolvedCall {
+  args: any;
+  profile?: string;
+  /** Preview a write call instead of making it */
+  dryRun: boolean;
+}
+
+/**
+ * Define a tool with its argument types inferred from the input schema
+ */
+export function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+/**
+ * Suffix for list messages when another page exists
+ */
+export function describeMore(pagination?: NetSapiensPagination): string {
+  return pagination?.hasMore ? ' (more results available; pass pageToken to continue)' : '';
+}
+
+/**
+ * Shared paging arguments for list tools
+ */
+export const pagingArguments = (defaultLimit: number) => ({
+  limit: z.number().int().positive().default(defaultLimit).describe(`Maximum number of results per page (default: ${defaultLimit})`),
+  page: z.number().int().positive().optional().describe('Page number to return, starting at 1 (ignored when pageToken is given)'),
+  pageToken: z.string().optional().describe('Token from a previous response to fetch the next page'),
+  fetchAll: z.boolean().default(false).describe('Fetch every page, up to 5000 results')
+});
+
+/**
+ * Shared argument for tools whose responses are cached
+ */
+export const cacheArguments = {
+  bypassCache: z.boolean().default(false).describe('Fetch fresh data from NetSapiens instead of a cached response')
+};
+
+/**
+ * Render a tool's output as MCP tool call content
+ */
+export function toCallToolResult(output: ToolOutput) {
+  const { success = true, message, data, pagination, warnings, error } = output;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ success, message, data, pagination, warnings, error }, null, 2),
+      },
+    ],
+  };
+}
+
+// Cautions a write handler reports alongside its result, e.g. a number losing its only route
+const getHandlerWarnings = (data: unknown): string[] => {
+  const warnings = (data as { warnings?: unknown } | null)?.warnings;
+  return Array.isArray(warnings) ? warnings.filter((warning): warning is string => typeof warning === 'string') : [];
+};
+
+/**
+ * Run a write tool with its mutating requests captured instead of sent, and report
+ * the requests it would have made with the before/after state of its target and
+ * any warnings the call would have given
+ */
+export async function previewTool(tool: ToolDefinition, args: any, context: ToolContext): Promise<ToolOutput> {
+  const before = tool.currentState ? await tool.currentState(args, context) : undefined;
+  const { result, requests } = await captureWrites(() => tool.handler(args, context));
+  const after = tool.expectedState ? tool.expectedState(before, args) : undefined;
+  const changes = diff(before, after);
+  const warnings = getHandlerWarnings(result.data);
+
+  return {
+    message: `Dry run: ${tool.name} would send ${requests.length} request${requests.length === 1 ? '' : 's'} ` +
+      `changing ${changes.length} field${changes.length === 1 ? '' : 's'}; nothing was changed` +
+      (warnings.length > 0 ? `. Warning: ${warnings.join('; ')}` : ''),
+    data: { dryRun: true, requests, before, after, changes, warnings },
+    warnings: result.warnings
+  };
+}
+
+function toPolicyTool(tool: ToolDefinition): PolicyTool {
+  return {
+    name: tool.name,
+    category: tool.category ?? 'read',
+    domainScoped: 'domain' in tool.inputSchema.shape
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(private readonly defaultProfile: string, private readonly policy: ToolPolicy = new ToolPolicy()) {}
+
+  register(tools: ToolDefinition<any>[]): this {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+    return this;
+  }
+
+  get(name: string): ToolDefinition {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    return tool;
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Tool listing for ListTools, with JSON Schemas generated from the zod input schemas.
+   * Tools denied by policy are left out.
+   */
+  list() {
+    const allowed = [...this.tools.values()].filter((tool) => this.policy.isToolAllowed(toPolicyTool(tool)));
+    return allowed.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: this.toJsonSchema(tool)
+    }));
+  }
+
+  /**
+   * Validate raw call arguments against a tool's input schema
+   */
+  parseArguments(tool: ToolDefinition, args: unknown): ResolvedCall {
+    const result = this.withDefaults(tool).safeParse(args ?? {});
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${tool.name}: ${issues.join('; ')}`);
+    }
+
+    const { profile, dryRun = false, ...rest } = result.data;
+    return { args: rest, profile, dryRun };
+  }
+
+  /**
+   * Check policy and validate arguments ahead of running a tool's handler
+   */
+  resolve(tool: ToolDefinition, rawArgs: unknown): ResolvedCall {
+    const policyTool = toPolicyTool(tool);
+    this.policy.checkTool(policyTool);
+    const resolved = this.parseArguments(tool, rawArgs);
+    this.policy.checkArguments(policyTool, resolved.args);
+    return resolved;
+  }
+
+  /**
+   * The schema callers see: the tool's own arguments plus `profile` and, for write tools, `dryRun`,
+   * with `domain` defaulted when the policy pins the server to a single domain and the tool doesn't opt out
+   */
+  private withDefaults(tool: ToolDefinition): z.AnyZodObject {
+    let schema = tool.inputSchema;
+
+    const defaultDomain = this.policy.defaultDomain;
+    const domain = schema.shape.domain as z.ZodTypeAny | undefined;
+    if (defaultDomain && domain && tool.usesDefaultDomain !== false) {
+      // The tool's own domain schema still validates the argument; only its absence is filled in
+      const required = domain instanceof z.ZodOptional ? domain.unwrap() : domain;
+      schema = schema.extend({
+        domain: required.default(defaultDomain).describe(`${domain.description ?? 'Domain name'} (default: ${defaultDomain})`)
+      });
+    }
+
+    if (tool.category === 'write') {
+      schema = schema.extend({
+        dryRun: z.boolean().default(false).describe('Validate the call and preview the request and resulting changes without making them')
+      });
+    }
+
+    if (tool.usesProfile === false) {
+      return schema;
+    }
+    return schema.extend({
+      profile: z.string().optional().describe(`NetSapiens profile to use (default: ${this.defaultProfile})`)
+    });
+  }
+
+  private toJsonSchema(tool: ToolDefinition): Record<string, unknown> {
+    // Unknown arguments are ignored, so there is no need to advertise additionalProperties
+    const { $schema, additionalProperties, ...schema } = zodToJsonSchema(this.withDefaults(tool), {
+      $refStrategy: 'none'
+    }) as Record<string, unknown>;
+    return schema;
+  }
+}
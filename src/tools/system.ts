@@ -0,0 +1,56 @@
+/**
+ * System tools: connectivity, rate limit budget and profiles
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+
+export const systemTools = [
+  defineTool({
+    name: 'test_connection',
+    description: 'Test connectivity to NetSapiens API',
+    inputSchema: z.object({}),
+    handler: async (_args, { client }) => {
+      const result = await client.testConnection();
+      return {
+        success: result.success,
+        message: result.message || (result.success ? 'Connection successful' : 'Connection failed'),
+        error: result.error
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_rate_limit_status',
+    description: 'Get current NetSapiens API rate limit budget usage and how many requests were delayed',
+    inputSchema: z.object({}),
+    handler: async (_args, { client }) => {
+      const status = client.getRateLimitStatus();
+      return {
+        message: status
+          ? `${status.remaining} of ${status.limit} requests remaining in the current ${status.windowMs}ms window` +
+            (status.delayedRequests > 0 ? `; ${status.delayedRequests} requests delayed so far` : '')
+          : 'Rate limiting is disabled',
+        data: status
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'list_profiles',
+    description: 'List the configured NetSapiens profiles (platforms) and which one is the default',
+    inputSchema: z.object({}),
+    usesProfile: false,
+    handler: async (_args, { profiles, defaultProfile }) => {
+      const data = [...profiles.entries()].map(([name, client]) => ({
+        name,
+        ...client.describe(),
+        default: name === defaultProfile
+      }));
+      return {
+        message: `${data.length} profiles configured (default: ${defaultProfile})`,
+        data
+      };
+    }
+  })
+];
@@ -0,0 +1,313 @@
+/**
+ * Timeframe and holiday schedule tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { parseHolidayCalendar } from '../ical.js';
+import { NetSapiensTimeframe, NetSapiensTimeframeDate, NetSapiensTimeframeFields } from '../types/config.js';
+import { domainName } from './domains.js';
+import { defineTool, ToolContext } from './registry.js';
+
+const scopeArguments = {
+  domain: domainName.describe('Domain name'),
+  userId: z.string().min(1).optional().describe('User ID for a user timeframe; omit for a domain timeframe')
+};
+
+const timeframeArguments = {
+  ...scopeArguments,
+  timeframe: z.string().regex(/^[\w.-]+$/, 'may only contain letters, digits, _, . and -').describe('Timeframe name, e.g. business-hours')
+};
+
+const isDate = (value: string) => {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+};
+const date = z.string().refine(isDate, 'must be a date in YYYY-MM-DD form');
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'must be a time in HH:MM form');
+
+const endsAfterStart = (range: { startTime?: string; endTime?: string }) =>
+  !range.startTime || !range.endTime || range.startTime < range.endTime;
+
+const dayRange = z
+  .object({
+    days: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).min(1).describe('Days of the week, e.g. ["mon", "fri"]'),
+    startTime: time.optional().describe('Local start time, HH:MM (default: start of day)'),
+    endTime: time.optional().describe('Local end time, HH:MM, exclusive (default: end of day)')
+  })
+  .refine(endsAfterStart, 'endTime must be after startTime');
+
+const dateRange = z
+  .object({
+    date: date.describe('Date, YYYY-MM-DD'),
+    endDate: date.optional().describe('Last day of a multi-day range, YYYY-MM-DD'),
+    startTime: time.optional().describe('Local start time, HH:MM (default: start of day)'),
+    endTime: time.optional().describe('Local end time, HH:MM, exclusive (default: end of day)'),
+    description: z.string().optional().describe('e.g. the holiday\'s name')
+  })
+  .refine((range) => !range.endDate || range.endDate >= range.date, 'endDate must not be before date')
+  .refine(endsAfterStart, 'endTime must be after startTime');
+
+const timeframeFieldArguments = {
+  type: z
+    .enum(['always', 'days_of_week', 'specific_dates', 'holidays'])
+    .describe('always, days_of_week (uses daysOfWeek), specific_dates or holidays (use dates)'),
+  daysOfWeek: z.array(dayRange).optional().describe('Days and time ranges covered, for days_of_week timeframes'),
+  dates: z.array(dateRange).optional().describe('Dates covered, for specific_dates and holidays timeframes')
+};
+
+type TimeframeFieldArguments = {
+  type?: z.infer<typeof timeframeFieldArguments.type>;
+  daysOfWeek?: z.infer<typeof dayRange>[];
+  dates?: z.infer<typeof dateRange>[];
+};
+
+const toTimeframeFields = ({ type, daysOfWeek, dates }: TimeframeFieldArguments): NetSapiensTimeframeFields =>
+  Object.fromEntries(
+    Object.entries({
+      type,
+      days_of_week: daysOfWeek?.map(({ days, startTime, endTime }) => ({ days, start_time: startTime, end_time: endTime })),
+      dates: dates?.map(({ date, endDate, startTime, endTime, description }) => ({
+        date,
+        end_date: endDate,
+        start_time: startTime,
+        end_time: endTime,
+        description
+      }))
+    }).filter(([, value]) => value !== undefined)
+  );
+
+/**
+ * Reject a timeframe whose lists don't match its type; NetSapiens would store one that never matches
+ */
+function checkTimeframe({ type, days_of_week, dates }: NetSapiensTimeframeFields): void {
+  if (!type) {
+    return;
+  }
+  const hasDays = (days_of_week?.length || 0) > 0;
+  const hasDates = (dates?.length || 0) > 0;
+  const problem =
+    type === 'days_of_week' ? (!hasDays ? 'needs daysOfWeek' : hasDates ? 'does not take dates' : undefined) :
+    type === 'always' ? (hasDays || hasDates ? 'does not take daysOfWeek or dates' : undefined) :
+    !hasDates ? 'needs dates' : hasDays ? 'does not take daysOfWeek' : undefined;
+  if (problem) {
+    throw new McpError(ErrorCode.InvalidParams, `A ${type} timeframe ${problem}`);
+  }
+}
+
+// Switching type clears the list the old type used, unless the change sets it again
+const withTypeChange = (current: NetSapiensTimeframe | undefined, changes: NetSapiensTimeframeFields): NetSapiensTimeframeFields =>
+  changes.type && changes.type !== current?.type ? { days_of_week: [], dates: [], ...changes } : changes;
+
+const describeScope = (domain: string, userId?: string) => (userId ? `user ${userId}@${domain}` : `domain ${domain}`);
+
+const describeTarget = ({ userId, timeframe }: { userId?: string; timeframe: string }) =>
+  userId ? `user ${userId} timeframe ${timeframe}` : `timeframe ${timeframe}`;
+
+const getCurrentTimeframe = async (
+  { domain, timeframe, userId }: { domain: string; timeframe: string; userId?: string },
+  { client }: ToolContext
+) => (await client.getTimeframe(domain, timeframe, userId)).data;
+
+const findTimeframe = async (client: ToolContext['client'], domain: string, timeframe: string, userId?: string) =>
+  ((await client.getTimeframes(domain, userId)).data || []).find((existing) => existing?.timeframe === timeframe);
+
+// The same day a year later; Feb 29 becomes Feb 28
+const oneYearAfter = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year + 1, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year + 1, month - 1, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+interface HolidayImportArguments {
+  ics: string;
+  from?: string;
+  until?: string;
+  replace: boolean;
+}
+
+/**
+ * The dates a holiday import leaves in the timeframe. Without replace, the timeframe's
+ * existing dates are kept and imported ones that are already listed are not added twice.
+ */
+function mergeHolidays(existing: NetSapiensTimeframe | null | undefined, { ics, from, until, replace }: HolidayImportArguments) {
+  const today = new Date().toISOString().slice(0, 10);
+  const start = from || today;
+  const end = until || oneYearAfter(start);
+  const imported = parseHolidayCalendar(ics, { from: start, until: end });
+
+  const key = (holiday: NetSapiensTimeframeDate) => `${holiday.date}|${holiday.end_date}|${holiday.start_time}|${holiday.description}`;
+  const kept = replace ? [] : existing?.dates || [];
+  const merged = new Map([...kept, ...imported.dates].map((holiday) => [key(holiday), holiday]));
+  return {
+    range: { from: start, until: end },
+    imported,
+    dates: [...merged.values()].sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
+
+export const timeframeTools = [
+  defineTool({
+    name: 'get_timeframes',
+    description: 'List a domain\'s timeframes, or a user\'s when userId is given. Answer rules refer to timeframes by name.',
+    inputSchema: z.object(scopeArguments),
+    handler: async ({ domain, userId }, { client }) => {
+      const result = await client.getTimeframes(domain, userId);
+      return {
+        message: `Retrieved ${result.data?.length || 0} timeframes for ${describeScope(domain, userId)}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_timeframe',
+    description: 'Get one timeframe: the days, times, dates or holidays it covers',
+    inputSchema: z.object(timeframeArguments),
+    handler: async ({ domain, timeframe, userId }, { client }) => {
+      const result = await client.getTimeframe(domain, timeframe, userId);
+      return {
+        message: `Retrieved timeframe ${timeframe} for ${describeScope(domain, userId)}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_timeframe',
+    category: 'write',
+    description: 'Create a domain timeframe, or a user timeframe when userId is given: days of the week with optional time ranges, ' +
+      'specific dates, or holidays',
+    inputSchema: z.object({
+      ...timeframeArguments,
+      ...timeframeFieldArguments
+    }),
+    target: describeTarget,
+    currentState: async () => null,
+    expectedState: (_current, { domain, timeframe, userId, ...fields }) => ({
+      timeframe,
+      domain,
+      ...(userId ? { user: userId } : {}),
+      ...toTimeframeFields(fields)
+    }),
+    handler: async ({ domain, timeframe, userId, ...fields }, { client }) => {
+      const changes = toTimeframeFields(fields);
+      checkTimeframe(changes);
+      if (await findTimeframe(client, domain, timeframe, userId)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Timeframe ${timeframe} already exists for ${describeScope(domain, userId)}; use update_timeframe instead`
+        );
+      }
+
+      const result = await client.createTimeframe(domain, timeframe, changes, userId);
+      return {
+        message: `Created timeframe ${timeframe} for ${describeScope(domain, userId)}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_timeframe',
+    category: 'write',
+    description: 'Change a timeframe\'s type, days or dates. A daysOfWeek or dates list replaces the existing one.',
+    inputSchema: z.object({
+      ...timeframeArguments,
+      ...timeframeFieldArguments,
+      type: timeframeFieldArguments.type.optional()
+    }),
+    target: describeTarget,
+    currentState: getCurrentTimeframe,
+    expectedState: (current, { domain, timeframe, userId, ...fields }) => ({ ...current, ...withTypeChange(current, toTimeframeFields(fields)) }),
+    handler: async ({ domain, timeframe, userId, ...fields }, { client }) => {
+      const changes = toTimeframeFields(fields);
+      if (Object.keys(changes).length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_timeframe needs at least one field to change');
+      }
+
+      const current = (await client.getTimeframe(domain, timeframe, userId)).data;
+      const next = withTypeChange(current, changes);
+      checkTimeframe({ ...current, ...next });
+
+      const result = await client.updateTimeframe(domain, timeframe, next, userId);
+      return {
+        message: `Updated timeframe ${timeframe} for ${describeScope(domain, userId)}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_timeframe',
+    category: 'write',
+    description: 'Delete a timeframe. Answer rules that use it stop matching, so move or delete them first.',
+    inputSchema: z.object(timeframeArguments),
+    target: describeTarget,
+    currentState: getCurrentTimeframe,
+    expectedState: () => null,
+    handler: async ({ domain, timeframe, userId }, { client }) => {
+      await client.getTimeframe(domain, timeframe, userId);
+      const result = await client.deleteTimeframe(domain, timeframe, userId);
+      return {
+        message: `Deleted timeframe ${timeframe} for ${describeScope(domain, userId)}`,
+        data: result.data
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'import_holiday_calendar',
+    category: 'write',
+    description: 'Import the holidays in an iCalendar (.ics) file into a domain holidays timeframe, creating it if needed. ' +
+      'Yearly recurring holidays are expanded within the from/until range; events that can\'t be imported are listed as skipped.',
+    inputSchema: z.object({
+      domain: scopeArguments.domain,
+      timeframe: timeframeArguments.timeframe.default('holidays').describe('Timeframe to import into (default: holidays)'),
+      ics: z.string().min(1).max(1000000).describe('Contents of the .ics file'),
+      from: date.optional().describe('First date to import, YYYY-MM-DD (default: today)'),
+      until: date.optional().describe('Last date to import, YYYY-MM-DD (default: one year after from)'),
+      replace: z.boolean().default(false).describe('Replace the timeframe\'s existing dates instead of adding to them')
+    }),
+    target: ({ timeframe }) => `timeframe ${timeframe}`,
+    currentState: async ({ domain, timeframe }, { client }) => (await findTimeframe(client, domain, timeframe)) ?? null,
+    expectedState: (current, { domain, timeframe, ...args }) => ({
+      ...(current ?? { timeframe, domain, type: 'holidays' }),
+      dates: mergeHolidays(current, args).dates
+    }),
+    handler: async ({ domain, timeframe, ...args }, { client }) => {
+      if (args.from && args.until && args.until < args.from) {
+        throw new McpError(ErrorCode.InvalidParams, 'until must not be before from');
+      }
+
+      const existing = await findTimeframe(client, domain, timeframe);
+      if (existing && existing.type !== 'holidays' && existing.type !== 'specific_dates') {
+        throw new McpError(ErrorCode.InvalidParams, `Timeframe ${timeframe} is a ${existing.type} timeframe and can't hold holidays`);
+      }
+
+      const { range, imported, dates } = mergeHolidays(existing, args);
+      if (imported.dates.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `No holidays between ${range.from} and ${range.until} in the calendar` +
+            (imported.skipped.length > 0 ? ` (${imported.skipped.length} events skipped)` : '')
+        );
+      }
+
+      const result = existing
+        ? await client.updateTimeframe(domain, timeframe, { dates })
+        : await client.createTimeframe(domain, timeframe, { type: 'holidays', dates });
+      return {
+        message: `Imported ${imported.dates.length} holidays from ${range.from} to ${range.until} into timeframe ${timeframe} for domain ${domain}` +
+          (imported.skipped.length > 0 ? `; skipped ${imported.skipped.length} events` : ''),
+        data: {
+          timeframe: result.data,
+          imported: imported.dates,
+          skipped: imported.skipped
+        }
+      };
+    }
+  })
+];
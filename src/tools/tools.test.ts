@@ -0,0 +1,923 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { ACME, GLOBEX } from '../testing/fixtures.js';
+import { TestHarness } from '../testing/harness.js';
+
+describe('tools', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.start();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const { isError, body } = await harness.callTool(name, args);
+    assert.equal(isError, false, `${name} failed: ${JSON.stringify(body)}`);
+    assert.equal(body.success, true);
+    return body;
+  };
+
+  describe('users', () => {
+    test('search_users searches across domains', async () => {
+      const body = await call('search_users', { query: 'a' });
+
+      assert.deepEqual(body.data.map((user: { user: string }) => user.user), ['100', '101', '102', '200']);
+      assert.equal(body.pagination.hasMore, false);
+    });
+
+    test('search_users searches within one domain', async () => {
+      const body = await call('search_users', { query: 'bob', domain: ACME });
+
+      assert.equal(body.data.length, 1);
+      assert.equal(body.data[0].email, 'bob@acme.example');
+    });
+
+    test('get_user normalizes flags sent as strings', async () => {
+      const body = await call('get_user', { userId: '100', domain: ACME });
+
+      assert.equal(body.data.first_name, 'Alice');
+      assert.equal(body.data.voicemail, true);
+    });
+
+    test('get_user_devices lists the user\'s devices', async () => {
+      const body = await call('get_user_devices', { userId: '100', domain: ACME });
+
+      assert.equal(body.data.length, 1);
+      assert.equal(body.data[0].model, 'Poly VVX 450');
+    });
+
+    test('create_user rejects user IDs and extensions already in use', async () => {
+      await assert.rejects(harness.callTool('create_user', { userId: '100', domain: ACME }), /User 100 already exists/);
+      await assert.rejects(
+        harness.callTool('create_user', { userId: '150', domain: ACME, extension: '101' }),
+        /Extension 101 is already assigned to user 101/
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'POST' && request.path === `/domains/${ACME}/users`));
+    });
+
+    test('create_user dryRun previews the new user without credentials', async () => {
+      const preview = await call('create_user', { userId: '150', domain: ACME, firstName: 'Erin', password: 'correct-horse', dryRun: true });
+
+      assert.equal(preview.data.requests[0].body.password, '[REDACTED]');
+      assert.equal(preview.data.requests[0].body.voicemail_pin, '[REDACTED]');
+      assert.deepEqual(preview.data.after, { user: '150', domain: ACME, first_name: 'Erin' });
+    });
+
+    test('create_user creates a user with generated credentials', async () => {
+      const body = await call('create_user', {
+        userId: '150',
+        domain: ACME,
+        firstName: 'Erin',
+        lastName: 'Evans',
+        email: 'erin@acme.example',
+        extension: '150',
+        timezone: 'America/Chicago',
+        voicemail: true
+      });
+
+      assert.match(body.data.generatedCredentials.password, /^[\w-]{16}$/);
+      assert.match(body.data.generatedCredentials.voicemailPin, /^\d{6}$/);
+      const sent = harness.mock.requests.at(-1)?.body as Record<string, unknown>;
+      assert.equal(sent.voicemail, 'yes');
+      assert.equal(sent.voicemail_pin, body.data.generatedCredentials.voicemailPin);
+
+      const created = await call('get_user', { userId: '150', domain: ACME });
+      assert.equal(created.data.first_name, 'Erin');
+      assert.equal(created.data.voicemail, true);
+    });
+
+    test('update_user changes fields and regenerates the voicemail PIN', async () => {
+      await assert.rejects(harness.callTool('update_user', { userId: '102', domain: ACME }), /at least one field/);
+
+      const body = await call('update_user', { userId: '102', domain: ACME, callerId: '5551000102', resetVoicemailPin: true });
+
+      assert.match(body.data.generatedCredentials.voicemailPin, /^\d{6}$/);
+      assert.equal(body.data.generatedCredentials.password, undefined);
+      assert.equal(harness.mock.data.users.find((user) => user.user === '102')?.caller_id, '5551000102');
+    });
+
+    test('delete_user dryRun lists the fields that would be removed', async () => {
+      const preview = await call('delete_user', { userId: '102', domain: ACME, dryRun: true });
+      assert.equal(preview.data.requests[0].method, 'DELETE');
+      assert.ok(preview.data.changes.some((change: { path: string; after: unknown }) => change.path === 'extension' && change.after === undefined));
+      assert.ok(harness.mock.data.users.some((user) => user.user === '102'));
+
+      await call('delete_user', { userId: '102', domain: ACME });
+      assert.ok(!harness.mock.data.users.some((user) => user.user === '102'));
+    });
+  });
+
+  describe('devices', () => {
+    test('device tools leave out SIP passwords unless policy allows them', async () => {
+      const list = await call('get_user_devices', { userId: '100', domain: ACME });
+      const one = await call('get_device', { userId: '100', domain: ACME, device: 'sip:100a@acme.example' });
+
+      assert.equal(list.data[0].sip_password, undefined);
+      assert.equal(one.data.model, 'Poly VVX 450');
+      assert.equal(one.data.sip_password, undefined);
+
+      const { isError, body } = await harness.callTool('get_device', {
+        userId: '100',
+        domain: ACME,
+        device: 'sip:100a@acme.example',
+        includeCredentials: true
+      });
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'policy_denied');
+      assert.equal(body.error.reason, 'credentials');
+    });
+
+    test('create_device checks the device is new and the model is known', async () => {
+      await assert.rejects(
+        harness.callTool('create_device', { userId: '100', domain: ACME, device: 'sip:100a@acme.example' }),
+        /Device sip:100a@acme.example already exists/
+      );
+      await assert.rejects(
+        harness.callTool('create_device', { userId: '100', domain: ACME, device: 'sip:100b@acme.example', model: 'Cisco 7960' }),
+        /Unknown phone model Cisco 7960; supported models: Poly VVX 450, Yealink T54W, Yealink T31P/
+      );
+      await assert.rejects(
+        harness.callTool('create_device', { userId: '100', domain: ACME, device: 'sip:100b@globex.example' }),
+        /must be in domain acme.example/
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'POST' && request.path.endsWith('/devices')));
+    });
+
+    test('create_device sends a generated SIP password without returning it', async () => {
+      const body = await call('create_device', { userId: '102', domain: ACME, device: 'sip:102a@acme.example', model: 'yealink t54w' });
+
+      const sent = harness.mock.requests.at(-1)?.body as Record<string, unknown>;
+      assert.match(sent.sip_password as string, /^[\w-]{24}$/);
+      assert.equal(sent.model, 'Yealink T54W');
+      assert.equal(body.data.device.sip_password, undefined);
+      assert.equal(body.data.sipCredentials, undefined);
+    });
+
+    test('create_provisioned_phone checks the MAC, model, template and line keys', async () => {
+      const args = { domain: ACME, model: 'Yealink T31P', lineKeys: [{ key: 1, type: 'line', device: 'sip:101a@acme.example' }] };
+
+      await assert.rejects(harness.callTool('create_provisioned_phone', { ...args, mac: '00:04:f2:aa:bb' }), /mac: must be a MAC address/);
+      await assert.rejects(harness.callTool('create_provisioned_phone', { ...args, mac: '00-04-F2-AA-BB-01' }), /Phone 00:04:f2:aa:bb:01 is already provisioned/);
+      await assert.rejects(
+        harness.callTool('create_provisioned_phone', { ...args, mac: '805ec0aabb03', template: 'polycom-vvx.cfg' }),
+        /Template polycom-vvx.cfg does not work with Yealink T31P; use one of yealink-t3x.cfg/
+      );
+      const sent = harness.mock.requests.length;
+      await assert.rejects(
+        harness.callTool('create_provisioned_phone', {
+          ...args,
+          mac: '805ec0aabb03',
+          lineKeys: [
+            { key: 1, type: 'blf', destination: '199' },
+            { key: 3, type: 'line', device: 'sip:199a@acme.example' },
+            { key: 3, type: 'speed_dial', destination: 'front desk' }
+          ]
+        }),
+        /key 1: user 199 does not exist.*key 3: the Yealink T31P has 2 line keys.*device sip:199a@acme.example does not exist.*key 3 is assigned more than once/
+      );
+      // BLF keys are checked against one listing of the domain's users, not a lookup per key
+      assert.deepEqual(
+        harness.mock.requests.slice(sent).filter((request) => request.path.startsWith(`/domains/${ACME}/users`)).map((request) => request.path),
+        [`/domains/${ACME}/users`]
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'POST' && request.path.endsWith('/phones')));
+    });
+
+    test('create_provisioned_phone and update_provisioned_phone keep line keys in order', async () => {
+      await call('create_provisioned_phone', {
+        domain: ACME,
+        mac: '80-5E-C0-AA-BB-03',
+        model: 'Yealink T31P',
+        lineKeys: [{ key: 2, type: 'speed_dial', destination: '15551000199', label: 'Main' }, { key: 1, type: 'line', device: 'sip:101a@acme.example' }]
+      });
+      const created = await call('get_provisioned_phone', { domain: ACME, mac: '805ec0aabb03' });
+      assert.equal(created.data.template, 'yealink-t3x.cfg');
+      assert.deepEqual(created.data.line_keys.map((key: { key: number }) => key.key), [1, 2]);
+
+      const preview = await call('update_provisioned_phone', { domain: ACME, mac: '80:5e:c0:aa:bb:03', model: 'Yealink T54W', dryRun: true });
+      assert.deepEqual(preview.data.requests[0].body, { model: 'Yealink T54W', template: 'yealink-t5x.cfg' });
+
+      await call('update_provisioned_phone', { domain: ACME, mac: '80:5e:c0:aa:bb:03', model: 'Yealink T54W', template: 'yealink-t5x-sidecar.cfg' });
+      const updated = await call('get_provisioned_phone', { domain: ACME, mac: '80:5e:c0:aa:bb:03' });
+      assert.equal(updated.data.template, 'yealink-t5x-sidecar.cfg');
+    });
+
+    test('device tools skip null and malformed model, device and phone records', async () => {
+      const devices = harness.mock.data.devices.filter((device) => device.domain === ACME);
+      harness.mock.failNext('GET', '/devicemodels', { status: 200, body: [null, { vendor: 'Acme' }, ...harness.mock.data.deviceModels] });
+      harness.mock.failNext('GET', `/domains/${ACME}/devices`, { status: 200, body: [null, ...devices] });
+      harness.mock.failNext('GET', `/domains/${ACME}/devices`, { status: 200, body: [null, { model: 'Yealink T31P' }] });
+      harness.mock.failNext('GET', `/domains/${ACME}/phones`, { status: 200, body: [null, { mac: '805ec0aabb09', domain: ACME, line_keys: [null] }] });
+
+      await call('create_provisioned_phone', {
+        domain: ACME,
+        mac: '805ec0aabb03',
+        model: 'Yealink T31P',
+        lineKeys: [{ key: 1, type: 'line', device: 'sip:101a@acme.example' }]
+      });
+      await call('create_device', { userId: '102', domain: ACME, device: 'sip:102a@acme.example' });
+      await call('delete_device', { userId: '101', domain: ACME, device: 'sip:101a@acme.example' });
+    });
+
+    test('delete_device is refused while a phone uses it', async () => {
+      await assert.rejects(
+        harness.callTool('delete_device', { userId: '100', domain: ACME, device: 'sip:100a@acme.example' }),
+        /Device sip:100a@acme.example is on key 1 of phone 00:04:f2:aa:bb:01; update or delete the phone first/
+      );
+
+      await call('delete_provisioned_phone', { domain: ACME, mac: '00:04:f2:aa:bb:01' });
+      await call('delete_device', { userId: '100', domain: ACME, device: 'sip:100a@acme.example' });
+      assert.ok(!harness.mock.data.devices.some((device) => device.device === 'sip:100a@acme.example'));
+    });
+  });
+
+  describe('domains', () => {
+    test('get_domains pages with tokens', async () => {
+      const first = await call('get_domains', { limit: 1 });
+      assert.deepEqual(first.data.map((domain: { domain: string }) => domain.domain), [ACME]);
+      assert.equal(first.pagination.hasMore, true);
+      assert.match(first.message, /more results available/);
+
+      const second = await call('get_domains', { limit: 1, pageToken: first.pagination.nextPageToken });
+      assert.deepEqual(second.data.map((domain: { domain: string }) => domain.domain), [GLOBEX]);
+      assert.equal(second.pagination.hasMore, false);
+      assert.equal(second.pagination.nextPageToken, undefined);
+    });
+
+    test('get_domains fetches every page with fetchAll', async () => {
+      const body = await call('get_domains', { fetchAll: true });
+
+      assert.equal(body.data.length, 2);
+      assert.equal(body.pagination.hasMore, false);
+    });
+
+    test('get_domain returns one domain', async () => {
+      const body = await call('get_domain', { domain: GLOBEX });
+
+      assert.equal(body.data.description, 'Globex Inc');
+    });
+  });
+
+  describe('phone numbers', () => {
+    test('get_phone_numbers lists a domain\'s numbers', async () => {
+      const body = await call('get_phone_numbers', { domain: ACME });
+
+      assert.deepEqual(body.data.map((number: { phonenumber: string }) => number.phonenumber), ['15551000100', '15551000199']);
+    });
+
+    test('get_phone_number returns one number', async () => {
+      const body = await call('get_phone_number', { domain: ACME, phoneNumber: '15551000199' });
+
+      assert.equal(body.data.routing, 'autoattendant');
+    });
+
+    test('add_phone_number checks the number is new and the destination exists', async () => {
+      await assert.rejects(
+        harness.callTool('add_phone_number', { domain: ACME, phoneNumber: '15551000100', routing: 'user', destination: '101' }),
+        /already in domain acme.example/
+      );
+      await assert.rejects(
+        harness.callTool('add_phone_number', { domain: ACME, phoneNumber: '15551000150', routing: 'callqueue', destination: '8999' }),
+        /Call queue 8999 does not exist in domain acme.example/
+      );
+      await assert.rejects(
+        harness.callTool('add_phone_number', { domain: ACME, phoneNumber: '15551000150', routing: 'conference', destination: '7001' }),
+        /Conference 7001 does not exist/
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'POST' && request.path === `/domains/${ACME}/phonenumbers`));
+    });
+
+    test('add_phone_number routes a new number to a conference', async () => {
+      const body = await call('add_phone_number', { domain: ACME, phoneNumber: '15551000150', routing: 'conference', destination: '7000' });
+
+      assert.equal(body.data.phoneNumber.routing, 'conference');
+      assert.equal(body.data.phoneNumber.destination, '7000');
+    });
+
+    test('reassign_phone_number warns when the old destination loses its only inbound route', async () => {
+      const body = await call('reassign_phone_number', { domain: ACME, phoneNumber: '15551000199', routing: 'callqueue', destination: '8001' });
+
+      assert.deepEqual(body.data.warnings, [
+        '15551000199 was the only phone number routed to autoattendant 9000, which no longer has an inbound route'
+      ]);
+      assert.match(body.message, /Warning: /);
+
+      const restored = await call('reassign_phone_number', {
+        domain: ACME,
+        phoneNumber: '15551000199',
+        routing: 'autoattendant',
+        destination: '9000',
+        dryRun: true
+      });
+      assert.deepEqual(restored.data.changes, [
+        { path: 'routing', before: 'callqueue', after: 'autoattendant' },
+        { path: 'destination', before: '8001', after: '9000' }
+      ]);
+    });
+
+    test('release_phone_number dryRun shows the sole-route warning without releasing the number', async () => {
+      const preview = await call('release_phone_number', { domain: ACME, phoneNumber: '15551000199', dryRun: true });
+      const numbers = await call('get_phone_numbers', { domain: ACME });
+
+      assert.deepEqual(preview.data.warnings, [
+        '15551000199 was the only phone number routed to autoattendant 9000, which no longer has an inbound route'
+      ]);
+      assert.match(preview.message, /nothing was changed\. Warning: /);
+      assert.ok(numbers.data.some((number: { phonenumber: string }) => number.phonenumber === '15551000199'));
+    });
+
+    test('release_phone_number skips null records when checking for other routes', async () => {
+      const numbers = harness.mock.data.phoneNumbers.filter((number) => number.domain === ACME);
+      harness.mock.failNext('GET', `/domains/${ACME}/phonenumbers`, { status: 200, body: [null, ...numbers] });
+
+      const body = await call('release_phone_number', { domain: ACME, phoneNumber: '15551000199' });
+      assert.equal(body.data.warnings.length, 1);
+    });
+
+    test('release_phone_number removes the number', async () => {
+      const body = await call('release_phone_number', { domain: ACME, phoneNumber: '15551000199' });
+      const numbers = await call('get_phone_numbers', { domain: ACME });
+
+      assert.deepEqual(body.data.warnings, [
+        '15551000199 was the only phone number routed to autoattendant 9000, which no longer has an inbound route'
+      ]);
+      assert.ok(!numbers.data.some((number: { phonenumber: string }) => number.phonenumber === '15551000199'));
+    });
+  });
+
+  describe('call records', () => {
+    test('get_cdr_records filters by user and converts numeric strings', async () => {
+      const body = await call('get_cdr_records', { domain: ACME, user: '100' });
+
+      assert.deepEqual(body.data.map((cdr: { call_id: string }) => cdr.call_id), ['cdr-1', 'cdr-2']);
+      assert.equal(body.data[0].duration, 300);
+    });
+
+    test('get_cdr_records passes the date range through', async () => {
+      const body = await call('get_cdr_records', { domain: ACME, startDate: '2026-01-06' });
+
+      assert.deepEqual(body.data.map((cdr: { call_id: string }) => cdr.call_id), ['cdr-3']);
+      assert.equal(harness.mock.requests.at(-1)?.query.get('start_time'), '2026-01-06');
+    });
+  });
+
+  describe('call center', () => {
+    test('get_call_queues lists queues', async () => {
+      const body = await call('get_call_queues', { domain: ACME });
+
+      assert.deepEqual(body.data.map((queue: { name: string }) => queue.name), ['Sales', 'Support']);
+      assert.equal(body.data[0].max_wait_time, 300);
+    });
+
+    test('get_call_queue returns one queue', async () => {
+      const body = await call('get_call_queue', { domain: ACME, queueId: '8002' });
+
+      assert.equal(body.data.strategy, 'ring-all');
+    });
+
+    test('get_call_queue_agents lists the queue\'s agents', async () => {
+      const body = await call('get_call_queue_agents', { domain: ACME, queueId: '8002' });
+
+      assert.deepEqual(body.data.map((agent: { agent: string }) => agent.agent), ['101']);
+    });
+
+    test('get_agents lists every agent in the domain', async () => {
+      const body = await call('get_agents', { domain: ACME });
+
+      assert.equal(body.data.length, 2);
+    });
+
+    test('login_agent and logout_agent change the agent\'s login status', async () => {
+      await call('login_agent', { domain: ACME, queueId: '8001', agentId: '101' });
+      assert.equal(harness.mock.data.agents.find((agent) => agent.agent === '101')?.login_status, 'logged_in');
+
+      await call('logout_agent', { domain: ACME, queueId: '8001', agentId: '101' });
+      assert.equal(harness.mock.data.agents.find((agent) => agent.agent === '101')?.login_status, 'logged_out');
+    });
+
+    test('login_agent dryRun previews the request and change without sending it', async () => {
+      const before = harness.mock.requests.length;
+      const body = await call('login_agent', { domain: ACME, queueId: '8002', agentId: '101', dryRun: true });
+
+      assert.equal(body.data.dryRun, true);
+      assert.deepEqual(body.data.requests.map((request: { method: string; url: string }) => [request.method, request.url]), [
+        ['POST', `${harness.mock.apiUrl}/ns-api/v2/domains/${ACME}/callqueues/8002/agents/101/login`]
+      ]);
+      assert.equal(body.data.requests[0].headers.Authorization, '[REDACTED]');
+      assert.deepEqual(body.data.changes, [{ path: 'login_status', before: 'logged_out', after: 'logged_in' }]);
+      assert.ok(harness.mock.requests.slice(before).every((request) => request.method === 'GET'));
+      assert.equal(harness.mock.data.agents.find((agent) => agent.agent === '101')?.login_status, 'logged_out');
+    });
+
+    test('logout_agent dryRun rejects agents outside the queue', async () => {
+      const { isError, body } = await harness.callTool('logout_agent', { domain: ACME, queueId: '8002', agentId: '100', dryRun: true });
+
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'not_found');
+    });
+
+    test('create_call_queue creates a queue and rejects IDs in use', async () => {
+      await assert.rejects(
+        harness.callTool('create_call_queue', { domain: ACME, queueId: '8001', name: 'Sales again' }),
+        /Call queue 8001 already exists/
+      );
+
+      await call('create_call_queue', {
+        domain: ACME,
+        queueId: '8003',
+        name: 'Billing',
+        strategy: 'linear-hunt',
+        maxWaitTime: 120,
+        overflowDestination: '100',
+        wrapUpTime: 15
+      });
+      const queues = await call('get_call_queues', { domain: ACME });
+      assert.deepEqual(queues.data.map((queue: { name: string }) => queue.name), ['Sales', 'Support', 'Billing']);
+      assert.equal(queues.data[2].wrap_up_time, 15);
+    });
+
+    test('update_call_queue changes only the given fields', async () => {
+      await call('update_call_queue', { domain: ACME, queueId: '8001', maxWaitTime: 120, overflowDestination: '' });
+      const queue = await call('get_call_queue', { domain: ACME, queueId: '8001' });
+
+      assert.equal(queue.data.max_wait_time, 120);
+      assert.equal(queue.data.overflow_destination, '');
+      assert.equal(queue.data.strategy, 'round-robin');
+    });
+
+    test('add_call_queue_agent adds a user with per-queue settings', async () => {
+      const missing = await harness.callTool('add_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '999' });
+      assert.equal(missing.isError, true);
+      assert.equal(missing.body.error.type, 'not_found');
+
+      await call('add_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '102', priority: 2, requestConfirmation: true });
+      await call('add_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '100', priority: 1 });
+      await assert.rejects(
+        harness.callTool('add_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '100' }),
+        /Agent 100 is already in call queue 8002/
+      );
+
+      const agents = await call('get_call_queue_agents', { domain: ACME, queueId: '8002' });
+      const carol = agents.data.find((agent: { agent: string }) => agent.agent === '102');
+      assert.equal(carol.priority, 2);
+      assert.equal(carol.request_confirmation, true);
+    });
+
+    test('update_call_queue_agent dryRun previews the new priority', async () => {
+      await call('add_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '102', priority: 2 });
+      const preview = await call('update_call_queue_agent', { domain: ACME, queueId: '8002', agentId: '102', priority: 1, dryRun: true });
+
+      assert.deepEqual(preview.data.changes, [{ path: 'priority', before: 2, after: 1 }]);
+      assert.deepEqual(preview.data.requests[0].body, { priority: 1 });
+    });
+
+    test('remove_call_queue_agent and delete_call_queue clean up', async () => {
+      await call('remove_call_queue_agent', { domain: ACME, queueId: '8001', agentId: '100' });
+      const agents = await call('get_call_queue_agents', { domain: ACME, queueId: '8001' });
+      assert.deepEqual(agents.data.map((agent: { agent: string }) => agent.agent), ['101']);
+
+      await call('delete_call_queue', { domain: ACME, queueId: '8002' });
+      const queues = await call('get_call_queues', { domain: ACME });
+      assert.deepEqual(queues.data.map((queue: { name: string }) => queue.name), ['Sales']);
+      assert.deepEqual(harness.mock.data.agents.find((agent) => agent.agent === '101')?.callqueues, ['8001']);
+    });
+
+    test('set_agent_status changes the agent\'s status and queue logins', async () => {
+      const available = await call('set_agent_status', { domain: ACME, agentId: '101', status: 'available' });
+      assert.deepEqual(available.data.queues, { '8001': 'logged_in', '8002': 'logged_in' });
+
+      const lunch = await call('set_agent_status', { domain: ACME, agentId: '101', status: 'lunch', reason: 'L1', queueIds: ['8002'] });
+      assert.deepEqual(lunch.data.results, [{ queueId: '8002', action: 'logout', result: 'changed' }]);
+      assert.deepEqual(lunch.data.queues, { '8002': 'logged_out' });
+
+      const agent = harness.mock.data.agents.find((candidate) => candidate.agent === '101');
+      assert.equal(agent?.status, 'lunch');
+      assert.equal(agent?.status_reason, 'L1');
+    });
+
+    test('set_agent_status reports queues that fail and changes the rest', async () => {
+      await call('set_agent_status', { domain: ACME, agentId: '101', status: 'available' });
+      harness.mock.failNext('POST', `/domains/${ACME}/callqueues/8001/agents/101/logout`, { status: 500, body: { message: 'Boom' } });
+      const { isError, body } = await harness.callTool('set_agent_status', { domain: ACME, agentId: '101', status: 'break' });
+
+      assert.equal(isError, false);
+      assert.equal(body.success, false);
+      assert.deepEqual(body.data.results.map((result: { result: string }) => result.result), ['failed', 'changed']);
+      assert.equal(body.data.queues['8001'], 'logged_in');
+      await assert.rejects(
+        harness.callTool('set_agent_status', { domain: ACME, agentId: '101', status: 'break', queueIds: ['8003'] }),
+        /Agent 101 is not a member of call queue 8003/
+      );
+    });
+
+    test('set_agent_status reads queue membership fresh rather than from the cache', async () => {
+      await call('get_call_queues', { domain: ACME });
+      harness.mock.data.callQueues.push({ object: 'callqueue', callqueue: '8003', domain: ACME, name: 'Billing', status: 'active' });
+      harness.mock.data.agents.find((agent) => agent.agent === '100')?.callqueues?.push('8003');
+
+      const body = await call('set_agent_status', { domain: ACME, agentId: '100', status: 'available' });
+      assert.deepEqual(body.data.queues, { '8001': 'logged_in', '8003': 'logged_in' });
+    });
+
+    test('set_agent_status skips null agent and queue records', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}/agents`, { status: 200, body: [null, { agent: '100', domain: ACME, status: 'break' }] });
+      harness.mock.failNext('GET', `/domains/${ACME}/callqueues`, { status: 200, body: [null, { callqueue: '8001', domain: ACME }] });
+
+      const body = await call('set_agent_status', { domain: ACME, agentId: '100', status: 'available' });
+      assert.deepEqual(body.data.queues, { '8001': 'logged_in' });
+    });
+
+    test('bulk_agent_status changes every agent, checking them all first', async () => {
+      const missing = await harness.callTool('bulk_agent_status', { domain: ACME, agentIds: ['100', '999'], status: 'meeting' });
+      assert.equal(missing.isError, true);
+      assert.equal(missing.body.error.type, 'not_found');
+      assert.equal(harness.mock.data.agents.find((agent) => agent.agent === '100')?.status, 'available');
+
+      const preview = await call('bulk_agent_status', { domain: ACME, agentIds: ['100', '101'], status: 'meeting', dryRun: true });
+      assert.deepEqual(preview.data.after['100'], { status: 'meeting', reason: '', queues: { '8001': 'logged_out' } });
+
+      const body = await call('bulk_agent_status', { domain: ACME, agentIds: ['100', '101'], status: 'meeting' });
+      assert.deepEqual(body.data.agents.map((agent: { queues: object }) => agent.queues), [
+        { '8001': 'logged_out' },
+        { '8001': 'logged_out', '8002': 'logged_out' }
+      ]);
+    });
+
+    test('get_agent_statistics returns all agents or one agent', async () => {
+      const all = await call('get_agent_statistics', { domain: ACME });
+      assert.equal(all.data.length, 2);
+
+      const one = await call('get_agent_statistics', { domain: ACME, agentId: '100' });
+      assert.equal(one.data.calls_handled, 42);
+    });
+  });
+
+  describe('auto attendants and answer rules', () => {
+    test('get_auto_attendants lists attendants', async () => {
+      const body = await call('get_auto_attendants', { domain: ACME });
+
+      assert.equal(body.data[0].name, 'Main Menu');
+      assert.equal(body.data[0].timeout, 10);
+    });
+
+    test('update_auto_attendant rejects missing destinations, dead ends and loops', async () => {
+      await assert.rejects(
+        harness.callTool('update_auto_attendant', { domain: ACME, attendantId: '9000', options: { '1': { type: 'callqueue', destination: '8999' } } }),
+        /key 1: Call queue 8999 does not exist/
+      );
+      await assert.rejects(
+        harness.callTool('update_auto_attendant', { domain: ACME, attendantId: '9000', options: { '9': { type: 'hangup' } } }),
+        /main menu is a dead end/
+      );
+      await assert.rejects(
+        harness.callTool('update_auto_attendant', {
+          domain: ACME,
+          attendantId: '9000',
+          options: { '1': { type: 'repeat' }, '2': { type: 'autoattendant', destination: '9000' } },
+          timeoutAction: { type: 'hangup' }
+        }),
+        /main menu loops back to itself without an exit/
+      );
+      await assert.rejects(
+        harness.callTool('update_auto_attendant', { domain: ACME, attendantId: '9000', afterHours: { options: { '0': { type: 'voicemail', destination: '100' } } } }),
+        /after-hours menu needs a business hours timeframe/
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'PUT' && request.path.includes('/autoattendants/')));
+    });
+
+    test('update_auto_attendant skips null and drifted attendant and conference records', async () => {
+      const attendants = [null, { attendant: '9500', domain: ACME, options: { '1': null } }, ...harness.mock.data.autoAttendants];
+      harness.mock.failNext('GET', `/domains/${ACME}/autoattendants`, { status: 200, body: attendants }, 2);
+      harness.mock.failNext('GET', `/domains/${ACME}/conferences`, { status: 200, body: [null, ...harness.mock.data.conferences] });
+
+      await call('update_auto_attendant', {
+        domain: ACME,
+        attendantId: '9000',
+        options: { '1': { type: 'autoattendant', destination: '9001' }, '2': { type: 'conference', destination: '7000' } }
+      });
+    });
+
+    test('set_auto_attendant_option dryRun previews the key change', async () => {
+      const preview = await call('set_auto_attendant_option', {
+        domain: ACME,
+        attendantId: '9000',
+        key: '3',
+        action: { type: 'autoattendant', destination: '9001' },
+        dryRun: true
+      });
+
+      assert.deepEqual(preview.data.changes, [{ path: 'options.3', after: { type: 'autoattendant', destination: '9001' } }]);
+      assert.deepEqual(preview.data.requests[0].body.options['1'], { type: 'callqueue', destination: '8001' });
+    });
+
+    test('update_auto_attendant adds and removes an after-hours menu', async () => {
+      await call('update_auto_attendant', {
+        domain: ACME,
+        attendantId: '9000',
+        businessHoursTimeframe: 'business-hours',
+        afterHours: { prompt: 'closed.wav', options: { '0': { type: 'voicemail', destination: '100' } }, timeoutAction: { type: 'repeat' } }
+      });
+      const updated = await call('get_auto_attendant', { domain: ACME, attendantId: '9000' });
+
+      assert.equal(updated.data.business_hours_timeframe, 'business-hours');
+      assert.deepEqual(updated.data.after_hours.options['0'], { type: 'voicemail', destination: '100' });
+
+      await assert.rejects(
+        harness.callTool('set_auto_attendant_option', { domain: ACME, attendantId: '9000', menu: 'after_hours', key: '0', action: null }),
+        /after-hours menu loops back to itself/
+      );
+      await call('update_auto_attendant', { domain: ACME, attendantId: '9000', businessHoursTimeframe: '', afterHours: null });
+      const restored = await call('get_auto_attendant', { domain: ACME, attendantId: '9000' });
+      assert.equal(restored.data.after_hours, undefined);
+    });
+
+    test('get_user_answer_rules lists rules', async () => {
+      const body = await call('get_user_answer_rules', { userId: '100', domain: ACME });
+
+      assert.deepEqual(body.data.map((rule: { timeframe: string }) => rule.timeframe), ['default', 'after-hours']);
+    });
+
+    test('get_user_answer_rule returns one rule', async () => {
+      const body = await call('get_user_answer_rule', { userId: '100', domain: ACME, timeframe: 'after-hours' });
+
+      assert.equal(body.data.forward, '15551000999');
+      assert.equal(body.data.voicemail, false);
+    });
+
+    test('create_answer_rule checks the timeframe exists and the order is in range', async () => {
+      await assert.rejects(
+        harness.callTool('create_answer_rule', { userId: '100', domain: ACME, timeframe: 'holiday', voicemail: true }),
+        /Timeframe holiday does not exist for user 100@acme.example or domain acme.example/
+      );
+      await assert.rejects(
+        harness.callTool('create_answer_rule', { userId: '100', domain: ACME, timeframe: 'holidays', order: 4 }),
+        /order must be between 1 and 3/
+      );
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'POST' && request.path.endsWith('/answerrules')));
+    });
+
+    test('create_answer_rule moves the rules after its position down', async () => {
+      const body = await call('create_answer_rule', {
+        userId: '100',
+        domain: ACME,
+        timeframe: 'holidays',
+        order: 2,
+        forwardAlways: '15551000999',
+        simultaneousRing: ['101', 'bob@acme.example'],
+        doNotDisturb: false
+      });
+      const rules = await call('get_user_answer_rules', { userId: '100', domain: ACME });
+
+      assert.equal(body.data.order, 2);
+      assert.equal(body.data.do_not_disturb, 'no');
+      assert.deepEqual(rules.data.map((rule: { timeframe: string; order: number }) => [rule.timeframe, rule.order]), [
+        ['default', 1],
+        ['holidays', 2],
+        ['after-hours', 3]
+      ]);
+      await assert.rejects(
+        harness.callTool('create_answer_rule', { userId: '100', domain: ACME, timeframe: 'holidays' }),
+        /already has an answer rule for timeframe holidays/
+      );
+    });
+
+    test('create_answer_rule creates the first rule for a user whose rule list is empty', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}/users/102/answerrules`, { status: 200, body: '' });
+
+      const body = await call('create_answer_rule', { userId: '102', domain: ACME, timeframe: 'default', voicemail: true });
+
+      assert.equal(body.data.order, 1);
+      assert.ok(!harness.mock.requests.some((request) => request.method === 'PUT' && request.path.includes('/answerrules/')));
+    });
+
+    test('update_answer_rule dryRun lists the changed fields', async () => {
+      const preview = await call('update_answer_rule', {
+        userId: '100',
+        domain: ACME,
+        timeframe: 'after-hours',
+        forwardAlways: '',
+        forwardNoAnswer: '15551000999',
+        noAnswerTimeout: 20,
+        dryRun: true
+      });
+
+      assert.deepEqual(preview.data.changes, [
+        { path: 'forward', before: '15551000999', after: '' },
+        { path: 'forward_no_answer', after: '15551000999' },
+        { path: 'no_answer_timeout', after: 20 }
+      ]);
+      await assert.rejects(
+        harness.callTool('update_answer_rule', { userId: '100', domain: ACME, timeframe: 'after-hours', forwardBusy: 'voicemail please' }),
+        /must be a phone number, extension or user@domain/
+      );
+    });
+
+    test('reorder_answer_rules moves only the rules whose position changes', async () => {
+      harness.mock.data.answerRules.push({ object: 'answerrule', timeframe: 'holidays', user: '100', domain: ACME, order: '3', enabled: 'yes', voicemail: 'yes' });
+      await assert.rejects(
+        harness.callTool('reorder_answer_rules', { userId: '100', domain: ACME, timeframes: ['holidays', 'default'] }),
+        /each of the user's rules exactly once/
+      );
+
+      await call('reorder_answer_rules', { userId: '100', domain: ACME, timeframes: ['after-hours', 'default', 'holidays'] });
+      const rules = await call('get_user_answer_rules', { userId: '100', domain: ACME });
+
+      assert.deepEqual(rules.data.map((rule: { timeframe: string }) => rule.timeframe), ['after-hours', 'default', 'holidays']);
+      assert.equal(harness.mock.requests.filter((request) => request.method === 'PUT').length, 2);
+    });
+
+    test('delete_answer_rule removes the rule', async () => {
+      await call('delete_answer_rule', { userId: '100', domain: ACME, timeframe: 'after-hours' });
+      const rules = await call('get_user_answer_rules', { userId: '100', domain: ACME });
+
+      assert.deepEqual(rules.data.map((rule: { timeframe: string }) => rule.timeframe), ['default']);
+    });
+  });
+
+  describe('timeframes', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20200101',
+      'DTEND;VALUE=DATE:20200102',
+      'RRULE:FREQ=YEARLY',
+      'SUMMARY:New Year\'s Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20201126',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+      'SUMMARY:Thanksgiving',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261225',
+      'SUMMARY:Christmas Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261228',
+      'DTEND;VALUE=DATE:20261231',
+      'SUMMARY:Office closure\\, year',
+      '  end',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20261102T090000',
+      'RRULE:FREQ=WEEKLY',
+      'SUMMARY:Standup',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261224',
+      'STATUS:CANCELLED',
+      'SUMMARY:Christmas Eve',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    test('get_timeframes lists domain or user timeframes', async () => {
+      const domain = await call('get_timeframes', { domain: ACME });
+      const user = await call('get_timeframes', { domain: ACME, userId: '100' });
+
+      assert.deepEqual(domain.data.map((timeframe: { timeframe: string }) => timeframe.timeframe), ['business-hours', 'holidays']);
+      assert.deepEqual(user.data.map((timeframe: { timeframe: string }) => timeframe.timeframe), ['after-hours']);
+    });
+
+    test('create_timeframe checks the lists match the type', async () => {
+      await assert.rejects(
+        harness.callTool('create_timeframe', { domain: ACME, timeframe: 'lunch', type: 'days_of_week' }),
+        /A days_of_week timeframe needs daysOfWeek/
+      );
+      await assert.rejects(
+        harness.callTool('create_timeframe', {
+          domain: ACME,
+          timeframe: 'lunch',
+          type: 'days_of_week',
+          daysOfWeek: [{ days: ['mon'], startTime: '13:00', endTime: '12:00' }]
+        }),
+        /endTime must be after startTime/
+      );
+
+      const body = await call('create_timeframe', {
+        domain: ACME,
+        userId: '100',
+        timeframe: 'lunch',
+        type: 'days_of_week',
+        daysOfWeek: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], startTime: '12:00', endTime: '13:00' }]
+      });
+      assert.deepEqual(body.data.days_of_week, [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start_time: '12:00', end_time: '13:00' }]);
+      assert.equal(body.data.user, '100');
+    });
+
+    test('create_timeframe and import_holiday_calendar read an empty or null timeframe list as no timeframes', async () => {
+      harness.mock.failNext('GET', `/domains/${ACME}/timeframes`, { status: 200, body: '' });
+      harness.mock.failNext('GET', `/domains/${ACME}/timeframes`, { status: 200, body: [null] });
+
+      const created = await call('create_timeframe', { domain: ACME, timeframe: 'closed', type: 'always' });
+      const imported = await call('import_holiday_calendar', { domain: ACME, timeframe: 'company-holidays', ics, from: '2026-11-01' });
+
+      assert.equal(created.data.timeframe, 'closed');
+      assert.equal(imported.data.timeframe.timeframe, 'company-holidays');
+    });
+
+    test('update_timeframe dryRun shows a type change clearing the old list', async () => {
+      const preview = await call('update_timeframe', {
+        domain: ACME,
+        userId: '100',
+        timeframe: 'after-hours',
+        type: 'specific_dates',
+        dates: [{ date: '2026-12-24', startTime: '12:00', endTime: '17:00' }],
+        dryRun: true
+      });
+
+      assert.deepEqual(preview.data.after.days_of_week, []);
+      assert.deepEqual(preview.data.requests[0].body, {
+        days_of_week: [],
+        dates: [{ date: '2026-12-24', start_time: '12:00', end_time: '17:00' }],
+        type: 'specific_dates'
+      });
+    });
+
+    test('delete_timeframe removes a user timeframe', async () => {
+      await call('delete_timeframe', { domain: ACME, userId: '100', timeframe: 'after-hours' });
+
+      const { isError, body } = await harness.callTool('get_timeframe', { domain: ACME, userId: '100', timeframe: 'after-hours' });
+      assert.equal(isError, true);
+      assert.equal(body.error.type, 'not_found');
+    });
+
+    test('import_holiday_calendar merges yearly and one-off holidays into the timeframe', async () => {
+      const body = await call('import_holiday_calendar', { domain: ACME, ics, from: '2026-11-01', until: '2027-12-31' });
+
+      assert.deepEqual(body.data.skipped, [
+        { summary: 'Standup', reason: 'unsupported recurrence FREQ=WEEKLY; only yearly holidays can be imported' }
+      ]);
+      assert.deepEqual(body.data.timeframe.dates, [
+        { date: '2026-11-26', description: 'Thanksgiving' },
+        { date: '2026-12-25', description: 'Christmas Day' },
+        { date: '2026-12-28', end_date: '2026-12-30', description: 'Office closure, year end' },
+        { date: '2027-01-01', description: 'New Year\'s Day' },
+        { date: '2027-11-25', description: 'Thanksgiving' }
+      ]);
+    });
+
+    test('import_holiday_calendar imports a year from Feb 29 up to Feb 28', async () => {
+      const body = await call('import_holiday_calendar', { domain: ACME, timeframe: 'leap-year-holidays', ics, from: '2028-02-29' });
+
+      assert.equal(body.message, `Imported 2 holidays from 2028-02-29 to 2029-02-28 into timeframe leap-year-holidays for domain ${ACME}; skipped 1 events`);
+      assert.deepEqual(body.data.imported.map((holiday: { date: string }) => holiday.date), ['2028-11-23', '2029-01-01']);
+    });
+
+    test('import_holiday_calendar rejects calendars with nothing to import', async () => {
+      await assert.rejects(
+        harness.callTool('import_holiday_calendar', { domain: ACME, ics: 'not a calendar' }),
+        /not an iCalendar file/
+      );
+      await assert.rejects(
+        harness.callTool('import_holiday_calendar', { domain: ACME, timeframe: 'business-hours', ics }),
+        /days_of_week timeframe and can't hold holidays/
+      );
+    });
+  });
+
+  describe('media and billing', () => {
+    test('get_user_greetings lists greetings', async () => {
+      const body = await call('get_user_greetings', { userId: '100', domain: ACME });
+
+      assert.equal(body.data[0].index, 1);
+    });
+
+    test('get_user_voicemails lists voicemails', async () => {
+      const body = await call('get_user_voicemails', { userId: '100', domain: ACME });
+
+      assert.equal(body.data[0].status, 'new');
+    });
+
+    test('get_music_on_hold lists files', async () => {
+      const body = await call('get_music_on_hold', { domain: ACME });
+
+      assert.equal(body.data[0].filename, 'jazz.wav');
+    });
+
+    test('get_billing returns charges as numbers', async () => {
+      const body = await call('get_billing', { domain: ACME });
+
+      assert.equal(body.data.charges, 129.95);
+    });
+  });
+
+  describe('system', () => {
+    test('test_connection reports success', async () => {
+      const body = await call('test_connection');
+
+      assert.equal(body.message, 'Connection successful');
+    });
+
+    test('get_rate_limit_status reports the profile\'s budget', async () => {
+      const body = await call('get_rate_limit_status');
+
+      assert.equal(typeof body.data.remaining, 'number');
+    });
+  });
+});
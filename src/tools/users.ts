@@ -0,0 +1,222 @@
+/**
+ * User management tools
+ */
+
+import { randomBytes, randomInt } from 'node:crypto';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NetSapiensClient } from '../netsapiens-client.js';
+import { NetSapiensUserFields } from '../types/config.js';
+import { domainName } from './domains.js';
+import { defineTool, describeMore, pagingArguments, ToolContext } from './registry.js';
+
+export const userArguments = {
+  userId: z.string().min(1).describe('User ID (username part)'),
+  domain: domainName.describe('Domain name')
+};
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const userFieldArguments = {
+  firstName: z.string().min(1).optional().describe('First name'),
+  lastName: z.string().min(1).optional().describe('Last name'),
+  email: z.string().email().optional().describe('Email address'),
+  extension: z.string().regex(/^\d{2,7}$/, 'must be 2 to 7 digits').optional().describe('Extension number'),
+  callerId: z.string().regex(/^\+?\d{10,15}$/, 'must be a 10 to 15 digit phone number').optional().describe('Outbound caller ID number'),
+  timezone: z.string().refine(isTimeZone, 'must be an IANA time zone').optional().describe('Time zone, e.g. America/New_York'),
+  voicemail: z.boolean().optional().describe('Whether voicemail is enabled')
+};
+
+const password = z.string().min(8).describe('Web portal password');
+const voicemailPin = z.string().regex(/^\d{4,10}$/, 'must be 4 to 10 digits').describe('Voicemail PIN');
+
+type UserFieldArguments = { [K in keyof typeof userFieldArguments]?: z.infer<(typeof userFieldArguments)[K]> };
+
+const toUserFields = ({ firstName, lastName, email, extension, callerId, timezone, voicemail }: UserFieldArguments): NetSapiensUserFields =>
+  Object.fromEntries(
+    Object.entries({
+      first_name: firstName,
+      last_name: lastName,
+      email,
+      extension,
+      caller_id: callerId,
+      timezone,
+      voicemail
+    }).filter(([, value]) => value !== undefined)
+  );
+
+// Generated credentials are returned once, in the tool output, and never logged
+const generatePassword = () => randomBytes(12).toString('base64url');
+const generatePin = () => String(randomInt(0, 1000000)).padStart(6, '0');
+
+/**
+ * Reject a user ID or extension already used in the domain; NetSapiens would accept a duplicate extension
+ */
+async function assertAvailable(client: NetSapiensClient, domain: string, userId: string, extension?: string, existingUser?: string) {
+  for await (const user of client.iterateDomainUsers(domain)) {
+    if (user.user === existingUser) {
+      continue;
+    }
+    if (!existingUser && user.user === userId) {
+      throw new McpError(ErrorCode.InvalidParams, `User ${userId} already exists in domain ${domain}`);
+    }
+    if (extension && (user.extension === extension || user.user === extension)) {
+      throw new McpError(ErrorCode.InvalidParams, `Extension ${extension} is already assigned to user ${user.user} in domain ${domain}`);
+    }
+  }
+}
+
+const getCurrentUser = async ({ userId, domain }: { userId: string; domain: string }, { client }: ToolContext) =>
+  (await client.getUser(userId, domain)).data;
+
+export const userTools = [
+  defineTool({
+    name: 'search_users',
+    description: 'Search for users in the NetSapiens system',
+    inputSchema: z.object({
+      query: z.string().min(1).describe('Search query (username or partial username)'),
+      domain: domainName.optional().describe('Optional specific domain to search in'),
+      ...pagingArguments(20)
+    }),
+    handler: async ({ query, domain, limit, page, pageToken, fetchAll }, { client }) => {
+      const result = await client.searchUsers(query, domain, limit, { page, pageToken, fetchAll });
+      return {
+        message: `Found ${result.data?.length || 0} users matching "${query}"${domain ? ` in domain ${domain}` : ''}${describeMore(result.pagination)}`,
+        data: result.data,
+        pagination: result.pagination,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_user',
+    description: 'Get detailed information about a specific user',
+    inputSchema: z.object(userArguments),
+    handler: async ({ userId, domain }, { client }) => {
+      const result = await client.getUser(userId, domain);
+      return {
+        message: `Retrieved user details for ${userId}`,
+        data: result.data,
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'get_user_devices',
+    description: 'Get devices assigned to a specific user',
+    inputSchema: z.object(userArguments),
+    handler: async ({ userId, domain }, { client }) => {
+      const result = await client.getUserDevices(userId, domain);
+      return {
+        message: `Retrieved ${result.data?.length || 0} devices for user ${userId}@${domain}`,
+        // SIP passwords are only returned by get_device, when asked for and allowed by policy
+        data: result.data?.map(({ sip_password, ...device }) => device),
+        warnings: result.warnings
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'create_user',
+    category: 'write',
+    description: 'Create a user, checking that the user ID and extension are free in the domain. ' +
+      'A password and voicemail PIN are generated when not given and returned once in the response.',
+    inputSchema: z.object({
+      ...userArguments,
+      ...userFieldArguments,
+      password: password.optional(),
+      voicemailPin: voicemailPin.optional()
+    }),
+    target: ({ userId }) => `user ${userId}`,
+    currentState: async () => null,
+    expectedState: (_current, { userId, domain, password, voicemailPin, ...fields }) => ({ user: userId, domain, ...toUserFields(fields) }),
+    handler: async ({ userId, domain, password, voicemailPin, ...fields }, { client }) => {
+      await assertAvailable(client, domain, userId, fields.extension);
+
+      const generated = {
+        password: password ? undefined : generatePassword(),
+        voicemailPin: voicemailPin ? undefined : generatePin()
+      };
+      const result = await client.createUser(userId, domain, {
+        ...toUserFields(fields),
+        password: password ?? generated.password,
+        voicemail_pin: voicemailPin ?? generated.voicemailPin
+      });
+      return {
+        message: `Created user ${userId}@${domain}` +
+          (generated.password || generated.voicemailPin ? '; generated credentials are shown only once, share them securely' : ''),
+        data: { user: result.data, generatedCredentials: generated }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'update_user',
+    category: 'write',
+    description: 'Update a user\'s name, email, extension, caller ID, time zone or voicemail setting, or set or regenerate their password or voicemail PIN',
+    inputSchema: z.object({
+      ...userArguments,
+      ...userFieldArguments,
+      password: password.optional(),
+      voicemailPin: voicemailPin.optional(),
+      resetPassword: z.boolean().default(false).describe('Generate a new password (returned once in the response)'),
+      resetVoicemailPin: z.boolean().default(false).describe('Generate a new voicemail PIN (returned once in the response)')
+    }),
+    target: ({ userId }) => `user ${userId}`,
+    currentState: getCurrentUser,
+    expectedState: (current, { userId, domain, password, voicemailPin, resetPassword, resetVoicemailPin, ...fields }) => ({
+      ...current,
+      ...toUserFields(fields)
+    }),
+    handler: async ({ userId, domain, password, voicemailPin, resetPassword, resetVoicemailPin, ...fields }, { client }) => {
+      const changes = toUserFields(fields);
+      const generated = {
+        password: resetPassword && !password ? generatePassword() : undefined,
+        voicemailPin: resetVoicemailPin && !voicemailPin ? generatePin() : undefined
+      };
+      const newPassword = password ?? generated.password;
+      const newPin = voicemailPin ?? generated.voicemailPin;
+      if (Object.keys(changes).length === 0 && !newPassword && !newPin) {
+        throw new McpError(ErrorCode.InvalidParams, 'update_user needs at least one field to change');
+      }
+      if (changes.extension) {
+        await assertAvailable(client, domain, userId, changes.extension, userId);
+      }
+
+      const result = await client.updateUser(userId, domain, { ...changes, password: newPassword, voicemail_pin: newPin });
+      return {
+        message: `Updated user ${userId}@${domain}` +
+          (generated.password || generated.voicemailPin ? '; generated credentials are shown only once, share them securely' : ''),
+        data: { user: result.data, generatedCredentials: generated }
+      };
+    }
+  }),
+
+  defineTool({
+    name: 'delete_user',
+    category: 'write',
+    description: 'Delete a user from a domain',
+    inputSchema: z.object(userArguments),
+    target: ({ userId }) => `user ${userId}`,
+    currentState: getCurrentUser,
+    expectedState: () => null,
+    handler: async ({ userId, domain }, { client }) => {
+      // Fails with not_found before anything is deleted if the user does not exist
+      await client.getUser(userId, domain);
+      const result = await client.deleteUser(userId, domain);
+      return {
+        message: `Deleted user ${userId}@${domain}`,
+        data: result.data
+      };
+    }
+  })
+];
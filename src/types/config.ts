@@ -5,8 +5,10 @@
 export interface NetSapiensConfig {
   /** NetSapiens API server base URL */
   apiUrl: string;
-  /** API authentication token */
-  apiToken: string;
+  /** API authentication token (static token mode) */
+  apiToken?: string;
+  /** OAuth2 credentials, used instead of apiToken when present */
+  oauth2?: NetSapiensOAuth2Config;
   /** Optional timeout for API requests (milliseconds) */
   timeout?: number;
   /** Optional rate limiting configuration */
@@ -14,6 +16,42 @@ export interface NetSapiensConfig {
     requests: number;
     perMilliseconds: number;
   };
+  /** Optional retry configuration for transient failures (429 and 5xx) */
+  retry?: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  /** Optional in-memory cache of rarely changing responses */
+  cache?: {
+    enabled: boolean;
+    /** Most responses kept before the least recently used is evicted */
+    maxEntries: number;
+    /** Time to live per endpoint (milliseconds); 0 disables caching for that endpoint */
+    ttlMs: {
+      domains: number;
+      domain: number;
+      callQueues: number;
+      musicOnHold: number;
+    };
+  };
+}
+
+export interface NetSapiensOAuth2Config {
+  /** OAuth2 client ID */
+  clientId: string;
+  /** OAuth2 client secret */
+  clientSecret: string;
+  /** Username for the password grant */
+  username?: string;
+  /** Password for the password grant */
+  password?: string;
+  /** Refresh token, used before falling back to the password grant */
+  refreshToken?: string;
+  /** Optional token endpoint override (defaults to {apiUrl}/ns-api/oauth2/token/) */
+  tokenUrl?: string;
+  /** Refresh this long before the access token expires (milliseconds, default 60000) */
+  refreshSkewMs?: number;
 }
 
 export interface MCPServerConfig {
@@ -21,10 +59,71 @@ export interface MCPServerConfig {
   name: string;
   /** Server version */
   version: string;
-  /** NetSapiens configuration */
-  netsapiens: NetSapiensConfig;
+  /** NetSapiens configuration, registered as the "default" profile */
+  netsapiens?: NetSapiensConfig;
+  /** Additional named NetSapiens profiles (e.g. production, partner, lab) */
+  profiles?: Record<string, NetSapiensConfig>;
+  /** Profile used when a tool call omits `profile` */
+  defaultProfile?: string;
   /** Debug mode */
   debug?: boolean;
+  /** How MCP clients connect (default: stdio) */
+  transport?: TransportConfig;
+  /** Log level and redaction */
+  logging?: LoggingConfig;
+  /** Which tools, categories and domains agents may use */
+  policy?: PolicyConfig;
+  /** Audit log of write tool calls */
+  audit?: AuditConfig;
+}
+
+export interface AllowDenyList {
+  /** When set, only these entries are allowed */
+  allow?: string[];
+  /** Always denied, even when also allowed */
+  deny?: string[];
+}
+
+export interface PolicyConfig {
+  /** Deny every write tool; shorthand for categories.deny: [write] */
+  readOnly?: boolean;
+  /** Tool names */
+  tools?: AllowDenyList;
+  /** Tool categories: read or write */
+  categories?: AllowDenyList;
+  /** Domains passed as a tool's domain argument */
+  domains?: AllowDenyList;
+  /** Let device tools return SIP passwords when a call asks for them (default: false) */
+  revealSipCredentials?: boolean;
+}
+
+export interface AuditConfig {
+  /** Record every write tool call (default: true) */
+  enabled?: boolean;
+  /** JSONL file entries are appended to (default: ~/.oitvoip-mcp/audit.jsonl) */
+  path?: string;
+}
+
+export interface LoggingConfig {
+  /** Minimum level written to stderr (default: info, or debug when debug is set) */
+  level?: 'debug' | 'info' | 'warn' | 'error';
+  redact?: {
+    /** Extra field names to redact, on top of tokens, secrets and subscriber names/emails */
+    fields?: string[];
+    /** Mask phone numbers down to their last four digits (default: true) */
+    phoneNumbers?: boolean;
+  };
+}
+
+export interface TransportConfig {
+  /** stdio for a local process, sse for HTTP with server-sent events */
+  type: 'stdio' | 'sse';
+  /** Interface the HTTP server binds to */
+  host?: string;
+  /** Port the HTTP server listens on */
+  port?: number;
+  /** Bearer tokens / API keys accepted on incoming HTTP connections */
+  apiKeys?: string[];
 }
 
 export interface NetSapiensApiResponse<T = any> {
@@ -32,6 +131,31 @@ export interface NetSapiensApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  /** Present on paginated list responses */
+  pagination?: NetSapiensPagination;
+  /** Fields that did not match the expected response schema */
+  warnings?: NetSapiensSchemaWarning[];
+}
+
+export interface NetSapiensSchemaWarning {
+  /** Entity type being validated (e.g. "user") */
+  entity: string;
+  /** Position in a list response, if applicable */
+  index?: number;
+  /** Dotted path of the offending field */
+  path: string;
+  message: string;
+}
+
+export interface NetSapiensPagination {
+  /** Offset of the first returned result */
+  offset: number;
+  /** Number of results returned */
+  returned: number;
+  /** Whether more results exist beyond this response */
+  hasMore: boolean;
+  /** Token for fetching the next page, present when hasMore is true */
+  nextPageToken?: string;
 }
 
 export interface NetSapiensUser {
@@ -50,6 +174,19 @@ export interface NetSapiensUser {
   timezone?: string;
 }
 
+/** Writable user fields for create and update requests */
+export interface NetSapiensUserFields {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  extension?: string;
+  caller_id?: string;
+  timezone?: string;
+  voicemail?: boolean;
+  password?: string;
+  voicemail_pin?: string;
+}
+
 export interface NetSapiensDomain {
   domain: string;
   description?: string;
@@ -75,64 +212,275 @@ export interface NetSapiensCDR {
 
 export interface NetSapiensDevice {
   object: string;
+  /** SIP device name, e.g. sip:100a@acme.example */
+  device?: string;
   mac?: string;
   template?: string;
   user?: string;
   domain?: string;
   status?: string;
   model?: string;
+  /** SIP registration password; only returned by tools when requested and allowed by policy */
+  sip_password?: string;
+}
+
+/** Device fields accepted by create and update; undefined fields are left unchanged */
+export interface NetSapiensDeviceFields {
+  model?: string;
+  sip_password?: string;
+}
+
+/** A phone model that can be provisioned by MAC address */
+export interface NetSapiensDeviceModel {
+  model: string;
+  vendor?: string;
+  /** Provisioning templates that work with this model */
+  templates?: string[];
+  /** Number of programmable line keys */
+  line_keys?: number;
+}
+
+export type NetSapiensLineKeyType = 'line' | 'blf' | 'speed_dial';
+
+/** One programmable key on a provisioned phone */
+export interface NetSapiensLineKey {
+  /** Key number, starting at 1 */
+  key: number;
+  type: NetSapiensLineKeyType;
+  /** SIP device registered on the key, for line keys */
+  device?: string;
+  /** User watched (blf) or number dialled (speed_dial) */
+  destination?: string;
+  label?: string;
+}
+
+/** A MAC-based provisioning entry: the configuration a desk phone downloads when it boots */
+export interface NetSapiensPhone {
+  object: string;
+  mac: string;
+  domain?: string;
+  model?: string;
+  template?: string;
+  line_keys?: NetSapiensLineKey[];
+  status?: string;
+}
+
+/** Provisioning entry fields accepted by create and update; a line_keys list replaces every key */
+export interface NetSapiensPhoneFields {
+  model?: string;
+  template?: string;
+  line_keys?: NetSapiensLineKey[];
 }
 
+/** Kinds of destination a phone number (DID) can route to */
+export type NetSapiensPhoneNumberRouting = 'user' | 'callqueue' | 'autoattendant' | 'conference' | 'external';
+
 export interface NetSapiensPhoneNumber {
   phonenumber: string;
   domain?: string;
+  /** The user calls ring, when routing is user */
   user?: string;
   object?: string;
   description?: string;
   status?: string;
-  routing?: string;
+  routing?: NetSapiensPhoneNumberRouting;
+  /** User, call queue, auto attendant or conference ID, or the external number, calls go to */
+  destination?: string;
 }
 
+/** Writable phone number fields for add and reassign requests */
+export type NetSapiensPhoneNumberFields = Partial<Pick<NetSapiensPhoneNumber, 'user' | 'description' | 'routing' | 'destination'>>;
+
+/** How a call queue offers calls to its agents */
+export type NetSapiensQueueStrategy = 'ring-all' | 'round-robin' | 'linear-hunt' | 'longest-idle' | 'fewest-calls';
+
 export interface NetSapiensCallQueue {
   object: string;
+  /** Call queue ID, usually its extension */
+  callqueue?: string;
   domain: string;
   name?: string;
   description?: string;
   status?: string;
+  /** Seconds a caller waits before the call goes to overflow_destination */
   max_wait_time?: number;
-  strategy?: string;
+  strategy?: NetSapiensQueueStrategy;
   music_on_hold?: string;
+  /** Where calls go after max_wait_time: an extension, user@domain or external number */
+  overflow_destination?: string;
+  /** Seconds after a call before an agent is offered the next one */
+  wrap_up_time?: number;
 }
 
+/** Writable call queue fields for create and update requests */
+export type NetSapiensCallQueueFields = Partial<Omit<NetSapiensCallQueue, 'object' | 'callqueue' | 'domain' | 'status'>>;
+
+/** Agent statuses a supervisor can set; every status but available takes the agent out of their queues */
+export type NetSapiensAgentStatus = 'available' | 'break' | 'lunch' | 'meeting' | 'training' | 'offline';
+
 export interface NetSapiensAgent {
   object: string;
   agent?: string;
   domain?: string;
   user?: string;
+  /** Usually a NetSapiensAgentStatus */
   status?: string;
+  /** Reason code given with the status, e.g. a WFM code */
+  status_reason?: string;
   skills?: string[];
   login_status?: string;
+  /** Position in a queue's hunt order; lower numbers are offered calls first */
+  priority?: number;
+  /** Per-queue wrap-up time in seconds, overriding the queue's */
+  wrap_up_time?: number;
+  /** Whether the agent must accept each queue call before it is connected */
+  request_confirmation?: boolean;
+  /** Whether queue calls are answered on the agent's phone automatically */
+  auto_answer?: boolean;
+}
+
+/** Per-queue agent settings for add and update requests */
+export type NetSapiensQueueAgentFields = Partial<Pick<NetSapiensAgent, 'priority' | 'wrap_up_time' | 'request_confirmation' | 'auto_answer'>>;
+
+/** What a menu key, or a timeout or invalid entry, does */
+export type NetSapiensMenuActionType =
+  | 'user'
+  | 'callqueue'
+  | 'autoattendant'
+  | 'conference'
+  | 'voicemail'
+  | 'external'
+  /** Play the menu again */
+  | 'repeat'
+  /** Dial-by-name directory */
+  | 'directory'
+  | 'hangup';
+
+export interface NetSapiensMenuAction {
+  type: NetSapiensMenuActionType;
+  /** User, call queue, auto attendant, conference or mailbox ID, or the external number; unused by repeat, directory and hangup */
+  destination?: string;
+}
+
+/** One variant of an auto attendant's menu */
+export interface NetSapiensAutoAttendantMenu {
+  /** Greeting played before waiting for a key */
+  prompt?: string;
+  /** Seconds to wait for a key before timeout_action */
+  timeout?: number;
+  /** Keys 0-9, * and # to the action each one takes */
+  options?: Record<string, NetSapiensMenuAction>;
+  /** What happens when no key is pressed in time */
+  timeout_action?: NetSapiensMenuAction;
+  /** What happens when a key with no option is pressed */
+  invalid_action?: NetSapiensMenuAction;
 }
 
-export interface NetSapiensAutoAttendant {
+/**
+ * An auto attendant. Its own menu plays during business_hours_timeframe, or always when
+ * no timeframe is set; after_hours plays the rest of the time.
+ */
+export interface NetSapiensAutoAttendant extends NetSapiensAutoAttendantMenu {
   object: string;
+  /** Auto attendant ID, usually its extension */
+  attendant?: string;
   domain: string;
   name?: string;
-  prompt?: string;
-  timeout?: number;
-  options?: any;
+  /** Timeframe during which the main menu plays */
+  business_hours_timeframe?: string;
+  after_hours?: NetSapiensAutoAttendantMenu;
+}
+
+/** Writable auto attendant fields for update requests; after_hours null removes the after-hours menu */
+export type NetSapiensAutoAttendantFields = Partial<Omit<NetSapiensAutoAttendant, 'object' | 'attendant' | 'domain' | 'after_hours'>> & {
+  after_hours?: NetSapiensAutoAttendantMenu | null;
+};
+
+export interface NetSapiensConference {
+  object: string;
+  /** Conference ID, usually its extension */
+  conference: string;
+  domain?: string;
+  name?: string;
 }
 
 export interface NetSapiensAnswerRule {
   object: string;
+  /** Timeframe the rule applies in; "default" applies when no other rule matches */
   timeframe: string;
   user?: string;
   domain?: string;
+  /** Position in the user's rule list; the first enabled rule whose timeframe matches is used */
+  order?: number;
+  enabled?: boolean;
+  /** Forward every call to this destination (forward always) */
   forward?: string;
+  /** Forward when the user is on another call */
+  forward_busy?: string;
+  /** Forward when the call is not answered within no_answer_timeout */
+  forward_no_answer?: string;
+  /** Seconds to ring before forward_no_answer applies */
+  no_answer_timeout?: number;
+  /** Forward when none of the user's devices are registered */
+  forward_offline?: string;
+  /** Destinations rung alongside the user's own devices */
+  simultaneous_ring?: string[];
+  /** Seconds to wait before ringing the simultaneous ring destinations */
+  simultaneous_ring_delay?: number;
+  do_not_disturb?: boolean;
+  /** Ask callers to record their name before the call is presented */
+  call_screening?: boolean;
   voicemail?: boolean;
   status?: string;
 }
 
+/** Writable answer rule fields for create and update requests */
+export type NetSapiensAnswerRuleFields = Partial<Omit<NetSapiensAnswerRule, 'object' | 'timeframe' | 'user' | 'domain' | 'status'>>;
+
+export type NetSapiensWeekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** Days of the week a timeframe covers, optionally limited to a time range */
+export interface NetSapiensTimeframeDays {
+  days: NetSapiensWeekday[];
+  /** Local time, HH:MM; the whole day when omitted */
+  start_time?: string;
+  /** Local time, HH:MM, exclusive */
+  end_time?: string;
+}
+
+/** A specific date, or an inclusive date range, a timeframe covers */
+export interface NetSapiensTimeframeDate {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Last day of a multi-day range, YYYY-MM-DD */
+  end_date?: string;
+  start_time?: string;
+  end_time?: string;
+  /** e.g. the holiday's name */
+  description?: string;
+}
+
+export type NetSapiensTimeframeType = 'always' | 'days_of_week' | 'specific_dates' | 'holidays';
+
+/**
+ * A named schedule answer rules refer to. Domain timeframes are shared by every user;
+ * user timeframes belong to one user.
+ */
+export interface NetSapiensTimeframe {
+  object: string;
+  timeframe: string;
+  domain?: string;
+  /** Set for user timeframes */
+  user?: string;
+  type?: NetSapiensTimeframeType;
+  days_of_week?: NetSapiensTimeframeDays[];
+  /** Specific dates or holidays, depending on type */
+  dates?: NetSapiensTimeframeDate[];
+}
+
+/** Writable timeframe fields for create and update requests */
+export type NetSapiensTimeframeFields = Partial<Pick<NetSapiensTimeframe, 'type' | 'days_of_week' | 'dates'>>;
+
 export interface NetSapiensGreeting {
   object: string;
   index: number;
@@ -166,6 +514,16 @@ export interface NetSapiensBilling {
   domain: string;
   period?: string;
   charges?: number;
-  usage?: any;
-  details?: any;
+  usage?: Record<string, unknown>;
+  details?: Record<string, unknown>;
+}
+
+export interface NetSapiensAgentStatistics {
+  agent?: string;
+  domain?: string;
+  calls_handled?: number;
+  calls_missed?: number;
+  talk_time?: number;
+  average_handle_time?: number;
+  status?: string;
 }
\ No newline at end of file